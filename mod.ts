@@ -1,6 +1,60 @@
 export { MEMORY, PagedFile } from "./src/PagedFile.ts";
-export type { PagedFileOptions } from "./src/PagedFile.ts";
+export type {
+  CachePriorities,
+  Durability,
+  FormatUpgrade,
+  FormatUpgradeContext,
+  FormatUpgrades,
+  PagedFileOptions,
+  PagedFileStats,
+  RepairResult,
+  Savepoint,
+  VacuumRemap,
+  VacuumResult,
+} from "./src/PagedFile.ts";
+export {
+  CURRENT_FORMAT_VERSION,
+  FormatFlags,
+  FormatVersion,
+  readFormatHeader,
+} from "./src/PageFormat.ts";
+export type {
+  AddressBits,
+  FormatHeader,
+  PageFormat,
+} from "./src/PageFormat.ts";
 export { Page } from "./src/Page.ts";
+export {
+  ClockCachePolicy,
+  LruCachePolicy,
+  TwoQueueCachePolicy,
+} from "./src/CachePolicy.ts";
+export type {
+  CachePolicyFactory,
+  CachePolicyName,
+  ICachePolicy,
+} from "./src/CachePolicy.ts";
+export { FilePageStorage, MemoryPageStorage } from "./src/PageStorage.ts";
+export type {
+  FilePageStorageOptions,
+  IPageStorage,
+  SyncMode,
+} from "./src/PageStorage.ts";
+export { AsyncPage, AsyncPagedFile } from "./src/AsyncPagedFile.ts";
+export {
+  FileFormatError,
+  FileLockedError,
+  PageCorruptionError,
+  ReadOnlyError,
+} from "./src/errors.ts";
+export { FileLock } from "./src/FileLock.ts";
+export type { FileLockMode } from "./src/FileLock.ts";
+export { checkIntegrity } from "./src/Integrity.ts";
+export type {
+  IntegrityIssue,
+  IntegrityIssueKind,
+  IntegrityReport,
+} from "./src/Integrity.ts";
 export {
   BinvalBlock,
   BinvalReadBlock,
@@ -14,6 +68,7 @@ export {
   FixedBlockList,
   GuardedBufferFacade,
   JoinedBufferFacade,
+  LazyBufferFacade,
   PagedBufferFacade,
   ReadBlock,
   SelectBufferFacade,
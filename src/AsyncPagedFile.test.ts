@@ -0,0 +1,128 @@
+import { AsyncPagedFile } from "./AsyncPagedFile.ts";
+import { MEMORY, PagedFile } from "./PagedFile.ts";
+import { MemoryPageStorage } from "./PageStorage.ts";
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.114.0/testing/asserts.ts";
+import { resolve } from "https://deno.land/std@0.114.0/path/mod.ts";
+
+const fixtureFolder = resolve(
+  Deno.cwd(),
+  "src",
+  "fixture",
+);
+
+try {
+  Deno.mkdirSync(fixtureFolder);
+} catch {
+  //
+}
+
+Deno.test("Async write root and reopen", async () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new AsyncPagedFile(path, { pageSize: 256 });
+  const root = await file.getRootPage();
+  await root.write(new Uint8Array([1, 2, 3]));
+  assertEquals(await root.read(0, 3), new Uint8Array([1, 2, 3]));
+  await file.save();
+  await file.close();
+  const file2 = new AsyncPagedFile(path);
+  assertEquals(file2.pageSize, 256);
+  const root2 = await file2.getRootPage();
+  assertEquals(await root2.read(0, 3), new Uint8Array([1, 2, 3]));
+  await file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Async multi pages with journal", async () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new AsyncPagedFile(path, { pageSize: 256, journal: true });
+  const page = await file.createPage();
+  const data = new Uint8Array(1000).map((_v, i) => i % 256);
+  await page.write(data);
+  await file.save();
+  await file.close();
+  const file2 = new AsyncPagedFile(path, { pageSize: 256 });
+  const page2 = await file2.getPage(page.addr);
+  assertEquals(await page2.getByteLength() >= 1000, true);
+  assertEquals(await page2.read(0, 1000), data);
+  await page2.append(new Uint8Array([1, 2]));
+  assertEquals(await page2.read(999, 3), new Uint8Array([231, 1, 2]));
+  assertEquals(await page2.splice(0, 2), data.slice(0, 2));
+  assertEquals(await page2.read(997, 3), new Uint8Array([231, 1, 2]));
+  await page2.delete();
+  await file2.save();
+  await file2.close();
+  // sync and async files share the same format
+  const file3 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file3.debug()[1].startsWith("001: Empty"), true);
+  file3.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Async concurrent operations are serialized", async () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new AsyncPagedFile(path, { pageSize: 256 });
+  const root = await file.getRootPage();
+  const results = await Promise.all([
+    root.writeByte(0, 1),
+    root.readByte(0),
+    root.writeByte(0, 2),
+    root.readByte(0),
+    file.save(),
+    file.createPage(),
+    file.createPage(),
+  ]);
+  assertEquals(results[1], 1);
+  assertEquals(results[3], 2);
+  assertEquals(results[5].addr !== results[6].addr, true);
+  await file.close();
+  await assertRejects(() => root.read(), Error, "Cannot use closed file");
+  Deno.removeSync(path);
+});
+
+Deno.test("Async byte length does not read the chain", async () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const addr = file.createPage().write(new Uint8Array(1000)).addr;
+  const reads: Array<number> = [];
+  const storage = new MemoryPageStorage(file.toBytes());
+  file.close();
+  const readPage = storage.readPage.bind(storage);
+  storage.readPage = (addr, pageSize) => {
+    reads.push(addr);
+    return readPage(addr, pageSize);
+  };
+  const file2 = new AsyncPagedFile(storage, { pageSize: 256 });
+  const page = await file2.getPage(addr);
+  reads.length = 0;
+  assertEquals(await page.getByteLength(), 1000);
+  assertEquals(reads, []);
+  await file2.close();
+});
+
+Deno.test("Async release pages", async () => {
+  const file = new AsyncPagedFile(MEMORY, { pageSize: 256 });
+  const page1 = await file.createPage();
+  const page2 = await file.createPage();
+  await file.getRootPage();
+  assertEquals((await file.getOpenPages()).length, 3);
+  await file.releasePage(page1);
+  await file.releasePage(0);
+  assertEquals(
+    (await file.getOpenPages()).map((page) => page.addr),
+    [page2.addr],
+  );
+  await file.releaseAllPages();
+  assertEquals(await file.getOpenPages(), []);
+  await file.close();
+});
@@ -0,0 +1,476 @@
+import {
+  MEMORY,
+  PAGED_FILE_INTERNAL,
+  PagedFile,
+  PagedFileInternalRef,
+  PagedFileOptions,
+  SavePage,
+  toJournalPages,
+} from "./PagedFile.ts";
+import { Page } from "./Page.ts";
+import {
+  DataPageBlock,
+  EmptylistPageBlock,
+  EntryPageBlock,
+  PageBlock,
+  pageBlockFromBuffer,
+  RootPageBlock,
+} from "./PageBlock.ts";
+import { PageFormat } from "./PageFormat.ts";
+import { IPageStorage, SyncMode } from "./PageStorage.ts";
+import { IWriteValue } from "./buffer/mod.ts";
+
+export type AsyncPageParentRef = {
+  run: AsyncPagedFile["run"];
+  prefetchChain: AsyncPagedFile["prefetchChain"];
+  prefetchLength: AsyncPagedFile["prefetchLength"];
+  prefetchForWrite: AsyncPagedFile["prefetchForWrite"];
+  prefetchForAppend: AsyncPagedFile["prefetchForAppend"];
+};
+
+/**
+ * Async version of PagedFile
+ * Pages needed by an operation are read with async I/O before the operation
+ * runs on the (synchronous) cache and freelist logic of PagedFile.
+ * Operations are queued so concurrent calls never overlap.
+ * Some I/O is still synchronous:
+ * - opening the file, including the recovery of a journal left by a crash
+ * - pages written out of the cache by the spill option
+ * - pages an operation needs that were not prefetched (for example a page
+ *   evicted from the cache by the operation itself)
+ */
+export class AsyncPagedFile {
+  public readonly path: string | typeof MEMORY | null;
+  public readonly pageSize: number;
+  public readonly cacheSize: number;
+  public readonly format: PageFormat;
+
+  private readonly core: PagedFile;
+  private readonly internal: PagedFileInternalRef;
+  private readonly pageParentRef: AsyncPageParentRef;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Opening the file (and reading its header) is synchronous
+  constructor(
+    source: string | typeof MEMORY | IPageStorage,
+    options: PagedFileOptions = {},
+  ) {
+    this.core = new PagedFile(source, options);
+    this.internal = this.core[PAGED_FILE_INTERNAL];
+    this.path = this.core.path;
+    this.pageSize = this.core.pageSize;
+    this.cacheSize = this.core.cacheSize;
+    this.format = this.core.format;
+    this.pageParentRef = {
+      run: this.run.bind(this),
+      prefetchChain: this.prefetchChain.bind(this),
+      prefetchLength: this.prefetchLength.bind(this),
+      prefetchForWrite: this.prefetchForWrite.bind(this),
+      prefetchForAppend: this.prefetchForAppend.bind(this),
+    };
+  }
+
+  public get closed() {
+    return this.core.closed;
+  }
+
+  // file size on disk
+  public get size() {
+    return this.core.size;
+  }
+
+  // file size including memory
+  public get unsavedSize() {
+    return this.core.unsavedSize;
+  }
+
+  public getRootPage(): Promise<AsyncPage> {
+    return this.run(
+      () => this.prefetchPages([0]),
+      () => this.wrapPage(this.core.getRootPage()),
+    );
+  }
+
+  public getPage(
+    addr: number,
+    pageType: number | null = null,
+  ): Promise<AsyncPage> {
+    return this.run(
+      () => this.prefetchPages([addr]),
+      () => this.wrapPage(this.core.getPage(addr, pageType)),
+    );
+  }
+
+  public createPage(pageType: number | null = null): Promise<AsyncPage> {
+    return this.run(
+      () => this.prefetchEmptylist(1),
+      () => this.wrapPage(this.core.createPage(pageType)),
+    );
+  }
+
+  public deletePage(
+    addr: number,
+    pageType: number | null = null,
+  ): Promise<void> {
+    return this.run(
+      () => this.prefetchForWrite(addr, Infinity),
+      () => this.core.deletePage(addr, pageType),
+    );
+  }
+
+  public getOpenPages(): Promise<Array<AsyncPage>> {
+    return this.run(
+      () => Promise.resolve(),
+      () => this.core.getOpenPages().map((page) => this.wrapPage(page)),
+    );
+  }
+
+  // Pages stay in memory until released (like PagedFile.releasePage)
+  public releasePage(page: number | AsyncPage): Promise<void> {
+    const addr = page instanceof AsyncPage ? page.addr : page;
+    return this.run(
+      () => Promise.resolve(),
+      () => this.core.releasePage(addr),
+    );
+  }
+
+  public releaseAllPages(): Promise<void> {
+    return this.run(
+      () => Promise.resolve(),
+      () => this.core.releaseAllPages(),
+    );
+  }
+
+  public save(): Promise<void> {
+    return this.run(() => this.saveInternal(), () => {});
+  }
+
+  // Flush saved pages to disk (useful with durability "none")
+  public sync(): Promise<void> {
+    return this.run(() => Promise.resolve(), () => this.core.sync());
+  }
+
+  public rollback(): Promise<void> {
+    return this.run(() => Promise.resolve(), () => this.core.rollback());
+  }
+
+  // wait for pending operations then close the file
+  public close(): Promise<void> {
+    return this.run(() => Promise.resolve(), () => this.core.close());
+  }
+
+  // PRIVATE
+
+  // queue an operation: prefetch (async) then fn (sync)
+  private run<T>(prefetch: () => Promise<void>, fn: () => T): Promise<T> {
+    const result = this.queue.then(async () => {
+      if (this.core.closed) {
+        throw new Error(`Cannot use closed file`);
+      }
+      try {
+        await prefetch();
+        return fn();
+      } finally {
+        this.internal.clearPrefetched();
+      }
+    });
+    // a failed operation does not block the next ones
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private wrapPage(page: Page): AsyncPage {
+    return new AsyncPage(this.pageParentRef, page);
+  }
+
+  private async saveInternal(): Promise<void> {
+    const { storage, journal, dataPages, metaPages, hasDirectPages, syncMode } =
+      this.internal.prepareSave();
+    if (dataPages.length + metaPages.length === 0) {
+      this.internal.finishSave();
+      return;
+    }
+    const sync = async (mode: SyncMode) => {
+      await (storage.syncAsync ? storage.syncAsync(mode) : storage.sync(mode));
+    };
+    const write = async (pages: Array<SavePage>) => {
+      for (const page of pages) {
+        const buffer = page.read();
+        if (storage.writePageAsync) {
+          await storage.writePageAsync(page.addr, buffer);
+        } else {
+          storage.writePage(page.addr, buffer);
+        }
+        page.onSaved();
+      }
+    };
+    if (journal) {
+      // the journal does not contain pages written by spill
+      if (hasDirectPages) {
+        await sync(syncMode ?? "full");
+      }
+      await journal.commitAsync(toJournalPages([...dataPages, ...metaPages]));
+    }
+    await write(dataPages);
+    // data must be on disk before root and emptylist reference it
+    if (journal === null && syncMode && metaPages.length > 0) {
+      await sync(syncMode);
+    }
+    await write(metaPages);
+    if (journal) {
+      // changes are on the file, the journal is no longer needed
+      await sync(syncMode ?? "full");
+      await journal.clearAsync();
+    } else if (syncMode) {
+      await sync(syncMode);
+    }
+    this.internal.finishSave();
+  }
+
+  // read pages of a chain until `end` bytes of content are available
+  private async prefetchChain(addr: number, end = Infinity): Promise<void> {
+    let pageAddr = addr;
+    let length = 0;
+    do {
+      const block = await this.loadPageBlock(pageAddr);
+      if (
+        !(block instanceof RootPageBlock || block instanceof EntryPageBlock ||
+          block instanceof DataPageBlock)
+      ) {
+        // invalid chain, the error is reported by PagedFile
+        return;
+      }
+      length += block.usedLength;
+      pageAddr = block.nextPage;
+    } while (pageAddr !== 0 && length < end);
+  }
+
+  // head of the chain, the whole chain if the format does not store the length
+  private async prefetchLength(addr: number): Promise<void> {
+    if (this.format.contentLength) {
+      await this.loadPageBlock(addr);
+      return;
+    }
+    await this.prefetchChain(addr);
+  }
+
+  // chain pages up to `end` and empty pages to write `size` bytes
+  private async prefetchForWrite(
+    addr: number,
+    end: number,
+    size = end,
+  ): Promise<void> {
+    await this.prefetchChain(addr, end);
+    const newPages = Number.isFinite(size)
+      ? Math.ceil(size / this.pageSize) + 1
+      : 0;
+    await this.prefetchEmptylist(newPages);
+  }
+
+  // head and last page of the chain and empty pages to append `size` bytes
+  private async prefetchForAppend(addr: number, size: number): Promise<void> {
+    const head = await this.loadPageBlock(addr);
+    if (
+      (head instanceof RootPageBlock || head instanceof EntryPageBlock) &&
+      head.lastPage
+    ) {
+      await this.loadPageBlock(head.lastPage);
+    }
+    await this.prefetchEmptylist(Math.ceil(size / this.pageSize) + 1);
+  }
+
+  // read root, emptylist pages and the next `count` empty pages to reuse
+  private async prefetchEmptylist(count: number): Promise<void> {
+    const root = await this.loadPageBlock(0);
+    if (!(root instanceof RootPageBlock)) {
+      return;
+    }
+    let last: EmptylistPageBlock | null = null;
+    let pageAddr = root.emptylistAddr;
+    while (pageAddr !== 0) {
+      const block = await this.loadPageBlock(pageAddr);
+      if (!(block instanceof EmptylistPageBlock)) {
+        return;
+      }
+      last = block;
+      pageAddr = block.nextPage;
+    }
+    if (last === null) {
+      return;
+    }
+    const reused: Array<number> = [];
+    for (let i = last.count - 1; i >= 0 && reused.length < count; i--) {
+      reused.push(last.readAtIndex(i));
+    }
+    await this.prefetchPages(reused);
+  }
+
+  private async prefetchPages(addrs: Array<number>): Promise<void> {
+    for (const addr of addrs) {
+      await this.loadPageBlock(addr);
+    }
+  }
+
+  // cached block or block read from the file (kept for the next operation)
+  private async loadPageBlock(addr: number): Promise<PageBlock | null> {
+    const cached = this.internal.getCachedPageBlock(addr);
+    if (cached) {
+      return cached;
+    }
+    const storage = this.internal.getStorage();
+    if (addr * this.pageSize >= this.core.size) {
+      return null;
+    }
+    const buffer = storage.readPageAsync
+      ? await storage.readPageAsync(addr, this.pageSize)
+      : storage.readPage(addr, this.pageSize);
+    this.internal.prefetchPageBuffer(addr, buffer);
+    return pageBlockFromBuffer(this.format, addr, buffer);
+  }
+}
+
+export class AsyncPage {
+  private readonly parent: AsyncPageParentRef;
+  private readonly page: Page;
+
+  constructor(parent: AsyncPageParentRef, page: Page) {
+    this.parent = parent;
+    this.page = page;
+  }
+
+  public get addr(): number {
+    return this.page.addr;
+  }
+
+  // root page return 0
+  public get type(): number {
+    return this.page.type;
+  }
+
+  public get closed() {
+    return this.page.closed;
+  }
+
+  public getByteLength(): Promise<number> {
+    return this.parent.run(
+      () => this.parent.prefetchLength(this.addr),
+      () => this.page.byteLength,
+    );
+  }
+
+  public read(start = 0, length?: number): Promise<Uint8Array> {
+    return this.parent.run(
+      () =>
+        this.parent.prefetchChain(
+          this.addr,
+          length === undefined ? Infinity : start + length,
+        ),
+      () => this.page.read(start, length),
+    );
+  }
+
+  public readByte(index: number): Promise<number> {
+    return this.parent.run(
+      () => this.parent.prefetchChain(this.addr, index + 1),
+      () => this.page.readByte(index),
+    );
+  }
+
+  public write(content: IWriteValue, offset = 0): Promise<void> {
+    return this.parent.run(
+      () =>
+        this.parent.prefetchForWrite(this.addr, offset + content.byteLength),
+      () => {
+        this.page.write(content, offset);
+      },
+    );
+  }
+
+  // Write and delele all pages after last written page
+  public writeAndCleanup(content: IWriteValue, offset = 0): Promise<void> {
+    return this.parent.run(
+      () =>
+        this.parent.prefetchForWrite(
+          this.addr,
+          Infinity,
+          offset + content.byteLength,
+        ),
+      () => {
+        this.page.writeAndCleanup(content, offset);
+      },
+    );
+  }
+
+  // delete pages after offset
+  public cleanupAfter(offset: number): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForWrite(this.addr, Infinity),
+      () => {
+        this.page.cleanupAfter(offset);
+      },
+    );
+  }
+
+  // write at the end of the content
+  public append(content: IWriteValue): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForAppend(this.addr, content.byteLength),
+      () => {
+        this.page.append(content);
+      },
+    );
+  }
+
+  // remove deleteCount bytes at offset and insert content in their place
+  public splice(
+    offset: number,
+    deleteCount: number,
+    insert?: IWriteValue,
+  ): Promise<Uint8Array> {
+    return this.parent.run(
+      () =>
+        this.parent.prefetchForWrite(
+          this.addr,
+          Infinity,
+          insert?.byteLength ?? 0,
+        ),
+      () => this.page.splice(offset, deleteCount, insert),
+    );
+  }
+
+  // remove content after length
+  public truncate(length: number): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForWrite(this.addr, Infinity),
+      () => {
+        this.page.truncate(length);
+      },
+    );
+  }
+
+  // truncate or extend the content with zeros
+  public resize(length: number): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForWrite(this.addr, Infinity, length),
+      () => {
+        this.page.resize(length);
+      },
+    );
+  }
+
+  public writeByte(index: number, val: number): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForWrite(this.addr, index + 1),
+      () => {
+        this.page.writeByte(index, val);
+      },
+    );
+  }
+
+  public delete(): Promise<void> {
+    return this.parent.run(
+      () => this.parent.prefetchForWrite(this.addr, Infinity),
+      () => this.page.delete(),
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  ClockCachePolicy,
+  ICachePolicy,
+  LruCachePolicy,
+  TwoQueueCachePolicy,
+} from "./CachePolicy.ts";
+import { MEMORY, PagedFile } from "./PagedFile.ts";
+import { assertEquals } from "https://deno.land/std@0.114.0/testing/asserts.ts";
+
+function evict(policy: ICachePolicy, count: number): Array<number> {
+  const evicted: Array<number> = [];
+  for (const addr of policy.evictionOrder()) {
+    evicted.push(addr);
+    policy.onRemove(addr);
+    if (evicted.length >= count) {
+      break;
+    }
+  }
+  return evicted;
+}
+
+Deno.test("LRU evicts least recently used pages", () => {
+  const policy = new LruCachePolicy();
+  [1, 2, 3, 4].forEach((addr) => policy.onInsert(addr));
+  policy.onAccess(1);
+  assertEquals(evict(policy, 2), [2, 3]);
+  assertEquals(Array.from(policy.evictionOrder()), [4, 1]);
+});
+
+Deno.test("CLOCK gives a second chance to used pages", () => {
+  const policy = new ClockCachePolicy();
+  [1, 2, 3, 4].forEach((addr) => policy.onInsert(addr));
+  policy.onAccess(1);
+  policy.onAccess(3);
+  assertEquals(evict(policy, 2), [2, 4]);
+  // bits were cleared by the sweep
+  assertEquals(evict(policy, 2), [1, 3]);
+});
+
+Deno.test("2Q keeps frequent pages during a scan", () => {
+  const policy = new TwoQueueCachePolicy(8);
+  [1, 2].forEach((addr) => policy.onInsert(addr));
+  // pages are evicted then used again: they become frequent
+  assertEquals(evict(policy, 2), [1, 2]);
+  [1, 2].forEach((addr) => policy.onInsert(addr));
+  // scan in a cache of 8 pages
+  let size = 2;
+  for (let addr = 100; addr < 110; addr++) {
+    policy.onInsert(addr);
+    size++;
+    if (size > 8) {
+      size -= evict(policy, 1).length;
+    }
+  }
+  assertEquals(
+    Array.from(policy.evictionOrder()),
+    [104, 105, 106, 107, 1, 2, 108, 109],
+  );
+});
+
+Deno.test("Cache policy and byte budget options", () => {
+  const inserted: Array<number> = [];
+  const file = new PagedFile(MEMORY, {
+    pageSize: 256,
+    cacheSize: { bytes: 1024 },
+    cachePolicy: (capacity) => {
+      assertEquals(capacity, 4);
+      const policy = new LruCachePolicy();
+      return {
+        onInsert: (addr) => {
+          inserted.push(addr);
+          policy.onInsert(addr);
+        },
+        onAccess: (addr) => policy.onAccess(addr),
+        onRemove: (addr) => policy.onRemove(addr),
+        evictionOrder: () => policy.evictionOrder(),
+      };
+    },
+  });
+  assertEquals(file.cacheSize, 4);
+  const page = file.createPage();
+  page.write(new Uint8Array(2000).fill(1));
+  file.save();
+  assertEquals(inserted.length > 4, true);
+  assertEquals(page.read(0, 2000), new Uint8Array(2000).fill(1));
+  file.close();
+
+  const file2 = new PagedFile(MEMORY, {
+    pageSize: 256,
+    cacheSize: 4,
+    cachePolicy: "2q",
+  });
+  const page2 = file2.createPage();
+  page2.write(new Uint8Array(3000).fill(2));
+  file2.save();
+  assertEquals(page2.read(0, 3000), new Uint8Array(3000).fill(2));
+  file2.close();
+});
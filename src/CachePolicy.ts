@@ -0,0 +1,222 @@
+/**
+ * Decide in which order cached pages are evicted
+ * The policy only tracks addresses, pages are stored by the PagedFile.
+ */
+export interface ICachePolicy {
+  // a page was added to the cache
+  onInsert(addr: number): void;
+  // a cached page was used (or replaced)
+  onAccess(addr: number): void;
+  // a page was removed from the cache (evicted or deleted)
+  onRemove(addr: number): void;
+  // cached addresses, first one should be evicted first
+  // pages may be removed while iterating
+  evictionOrder(): Iterable<number>;
+}
+
+// capacity is the cacheSize of the file (in pages)
+export type CachePolicyFactory = (capacity: number) => ICachePolicy;
+
+export type CachePolicyName = "lru" | "clock" | "2q";
+
+export function createCachePolicy(
+  policy: CachePolicyName | CachePolicyFactory,
+  capacity: number,
+): ICachePolicy {
+  if (typeof policy === "function") {
+    return policy(capacity);
+  }
+  if (policy === "lru") {
+    return new LruCachePolicy();
+  }
+  if (policy === "clock") {
+    return new ClockCachePolicy();
+  }
+  if (policy === "2q") {
+    return new TwoQueueCachePolicy(capacity);
+  }
+  throw new Error(`Invalid cache policy: ${policy}`);
+}
+
+/**
+ * Least recently used pages are evicted first
+ */
+export class LruCachePolicy implements ICachePolicy {
+  // Set keeps insertion order: oldest first
+  private readonly addrs = new Set<number>();
+
+  public onInsert(addr: number) {
+    this.addrs.add(addr);
+  }
+
+  public onAccess(addr: number) {
+    this.addrs.delete(addr);
+    this.addrs.add(addr);
+  }
+
+  public onRemove(addr: number) {
+    this.addrs.delete(addr);
+  }
+
+  public evictionOrder(): Iterable<number> {
+    return this.addrs;
+  }
+}
+
+/**
+ * CLOCK (second chance): pages used since the last sweep are skipped once
+ * Cheaper than LRU on access, nothing moves until pages are evicted.
+ */
+export class ClockCachePolicy implements ICachePolicy {
+  // addr => referenced bit, in clock order
+  private readonly referenced = new Map<number, boolean>();
+
+  public onInsert(addr: number) {
+    this.referenced.set(addr, false);
+  }
+
+  public onAccess(addr: number) {
+    this.referenced.set(addr, true);
+  }
+
+  public onRemove(addr: number) {
+    this.referenced.delete(addr);
+  }
+
+  public *evictionOrder(): Iterable<number> {
+    for (const [addr, referenced] of this.referenced) {
+      if (referenced) {
+        // clear the bit and move the page after the hand
+        this.referenced.delete(addr);
+        this.referenced.set(addr, false);
+        continue;
+      }
+      yield addr;
+    }
+  }
+}
+
+/**
+ * 2Q: pages seen once stay in a small FIFO queue and are evicted first,
+ * pages used again after being evicted go to the main LRU queue.
+ * A large sequential scan only flushes the FIFO queue (scan resistant).
+ */
+export class TwoQueueCachePolicy implements ICachePolicy {
+  private readonly recentCapacity: number;
+  private readonly ghostCapacity: number;
+  // pages seen once (FIFO)
+  private readonly recent = new Set<number>();
+  // pages used again (LRU)
+  private readonly frequent = new Set<number>();
+  // addresses recently removed from recent
+  private readonly ghosts = new Set<number>();
+
+  constructor(capacity: number) {
+    this.recentCapacity = Math.max(1, Math.floor(capacity / 4));
+    this.ghostCapacity = Math.max(1, Math.floor(capacity / 2));
+  }
+
+  public onInsert(addr: number) {
+    if (this.ghosts.delete(addr)) {
+      this.frequent.add(addr);
+      return;
+    }
+    this.recent.add(addr);
+  }
+
+  public onAccess(addr: number) {
+    // accesses in recent are not counted (an operation uses a page many times)
+    if (this.frequent.delete(addr)) {
+      this.frequent.add(addr);
+    }
+  }
+
+  public onRemove(addr: number) {
+    if (this.frequent.delete(addr)) {
+      return;
+    }
+    if (this.recent.delete(addr)) {
+      this.ghosts.add(addr);
+      if (this.ghosts.size > this.ghostCapacity) {
+        const [oldest] = this.ghosts;
+        this.ghosts.delete(oldest);
+      }
+    }
+  }
+
+  public *evictionOrder(): Iterable<number> {
+    const recent = Array.from(this.recent);
+    // recent pages over their share are evicted before frequent pages
+    const extraCount = Math.max(0, recent.length - this.recentCapacity);
+    yield* recent.slice(0, extraCount);
+    yield* this.frequent;
+    yield* recent.slice(extraCount);
+  }
+}
+
+/**
+ * Map of cached values by address, the policy is notified of every change
+ */
+export class CacheMap<T> {
+  private readonly map = new Map<number, T>();
+  private readonly policy: ICachePolicy;
+
+  constructor(policy: ICachePolicy) {
+    this.policy = policy;
+  }
+
+  public get size() {
+    return this.map.size;
+  }
+
+  // get without notifying the policy
+  public peek(addr: number): T | undefined {
+    return this.map.get(addr);
+  }
+
+  public get(addr: number): T | undefined {
+    const val = this.map.get(addr);
+    if (val !== undefined) {
+      this.policy.onAccess(addr);
+    }
+    return val;
+  }
+
+  public set(addr: number, val: T) {
+    if (this.map.has(addr)) {
+      this.policy.onAccess(addr);
+    } else {
+      this.policy.onInsert(addr);
+    }
+    this.map.set(addr, val);
+  }
+
+  public delete(addr: number): boolean {
+    if (this.map.delete(addr) === false) {
+      return false;
+    }
+    this.policy.onRemove(addr);
+    return true;
+  }
+
+  /**
+   * Return false in cb to stop the loop
+   */
+  public traverse(cb: (val: T, addr: number) => void | false) {
+    for (const [addr, val] of this.map) {
+      if (cb(val, addr) === false) {
+        break;
+      }
+    }
+  }
+
+  // values in eviction order, values can be deleted while iterating
+  public *evictionOrder(): Iterable<T> {
+    for (const addr of this.policy.evictionOrder()) {
+      const val = this.map.get(addr);
+      if (val !== undefined) {
+        yield val;
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { FileLockedError } from "./errors.ts";
+
+export type FileLockMode = "shared" | "exclusive";
+
+type HeldLock = { mode: FileLockMode; count: number };
+
+// locks held by this process, by real path of the file
+const heldLocks = new Map<string, HeldLock>();
+
+/**
+ * Advisory lock (flock) on an open file.
+ * The operating system releases the lock when the file is closed,
+ * including when the process exits or crashes.
+ * A lock held by another process is waited for, a conflicting lock held by
+ * this process throws a FileLockedError (waiting for it would never end).
+ */
+export class FileLock {
+  // mode of the lock held by this process on the file, null if not locked
+  public static heldMode(path: string): FileLockMode | null {
+    return heldLocks.get(realPath(path))?.mode ?? null;
+  }
+
+  public readonly path: string;
+  public readonly mode: FileLockMode;
+
+  private readonly file: Deno.FsFile;
+  private key: string | null = null;
+
+  constructor(file: Deno.FsFile, path: string, mode: FileLockMode) {
+    this.file = file;
+    this.path = path;
+    this.mode = mode;
+  }
+
+  public get locked() {
+    return this.key !== null;
+  }
+
+  public acquire() {
+    if (this.key !== null) {
+      return;
+    }
+    const key = realPath(this.path);
+    const held = heldLocks.get(key);
+    if (held && (held.mode === "exclusive" || this.mode === "exclusive")) {
+      throw new FileLockedError(this.path, this.mode);
+    }
+    this.file.lockSync(this.mode === "exclusive");
+    heldLocks.set(key, { mode: this.mode, count: (held?.count ?? 0) + 1 });
+    this.key = key;
+  }
+
+  public release() {
+    if (this.key === null) {
+      return;
+    }
+    this.file.unlockSync();
+    const held = heldLocks.get(this.key);
+    if (held && held.count > 1) {
+      held.count--;
+    } else {
+      heldLocks.delete(this.key);
+    }
+    this.key = null;
+  }
+}
+
+// resolved path (symlinks, relative segments), path itself if the file does not exist
+export function realPath(path: string): string {
+  try {
+    return Deno.realPathSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return path;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,82 @@
+import { MEMORY, PagedFile } from "./PagedFile.ts";
+import { checkIntegrity } from "./Integrity.ts";
+import { assertEquals } from "https://deno.land/std@0.114.0/testing/asserts.ts";
+
+Deno.test("Integrity of a valid file", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  assertEquals(checkIntegrity(file).valid, true);
+  const page1 = file.createPage();
+  page1.write(new Uint8Array(1000).fill(1));
+  const page2 = file.createPage();
+  page2.write(new Uint8Array(600).fill(2));
+  file.save();
+  // unsaved changes are checked too
+  page1.writeAndCleanup(new Uint8Array(10));
+  page1.append(new Uint8Array(500));
+  page2.delete();
+  file.createPage().write(new Uint8Array(300));
+  const report = checkIntegrity(file);
+  assertEquals(report.issues, []);
+  assertEquals(report.valid, true);
+  assertEquals(report.entryPages, 2);
+  file.save();
+  assertEquals(checkIntegrity(file).valid, true);
+  file.close();
+});
+
+Deno.test("Integrity reports shared, leaked and broken pages", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  file.createPage().write(new Uint8Array(300).fill(1)); // 1 -> 2
+  file.createPage().write(new Uint8Array(300).fill(2)); // 3 -> 4
+  const bytes = file.toBytes();
+  file.close();
+  // page 3 becomes a copy of page 1
+  bytes.copyWithin(3 * 256, 1 * 256, 2 * 256);
+  const file2 = PagedFile.fromBytes(bytes);
+  assertEquals(
+    checkIntegrity(file2).issues.map(({ kind, addr }) => ({ kind, addr })),
+    [{ kind: "shared-page", addr: 2 }, { kind: "leaked-page", addr: 4 }],
+  );
+  file2.close();
+  // page 2 becomes an Empty page not in the emptylist
+  bytes.fill(0, 2 * 256, 3 * 256);
+  const file3 = PagedFile.fromBytes(bytes);
+  const report = checkIntegrity(file3);
+  assertEquals(report.valid, false);
+  assertEquals(
+    report.issues.map(({ kind, addr }) => ({ kind, addr })),
+    [
+      { kind: "broken-chain", addr: 1 },
+      { kind: "broken-chain", addr: 3 },
+      { kind: "leaked-page", addr: 2 },
+      { kind: "leaked-page", addr: 4 },
+    ],
+  );
+  file3.close();
+});
+
+Deno.test("Integrity checks prevPage of data pages", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  page.write(new Uint8Array(600).fill(1)); // 1 -> 2 -> 3
+  page.splice(300, 0, new Uint8Array(400).fill(2)); // 1 -> 2 -> 4 -> 5 -> 3
+  page.splice(100, 500); // 1 -> 5 -> 3
+  file.save();
+  assertEquals(file.debug().filter((line) => line.includes("Data")), [
+    "003: Data [prevPage: 5, nextPage: 0]",
+    "005: Data [prevPage: 1, nextPage: 3]",
+  ]);
+  assertEquals(checkIntegrity(file).issues, []);
+  const bytes = file.toBytes();
+  file.close();
+  // prevPage of page 3 (after the type) points to page 1
+  new DataView(bytes.buffer).setUint32(3 * 256 + 1, 1, true);
+  const file2 = PagedFile.fromBytes(bytes);
+  assertEquals(
+    checkIntegrity(file2).issues.map(({ kind, addr }) => ({ kind, addr })),
+    [{ kind: "prev-mismatch", addr: 3 }],
+  );
+  file2.repair();
+  assertEquals(checkIntegrity(file2).issues, []);
+  file2.close();
+});
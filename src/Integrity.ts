@@ -0,0 +1,340 @@
+import { PAGED_FILE_INTERNAL, PagedFile } from "./PagedFile.ts";
+import {
+  DataPageBlock,
+  EmptylistPageBlock,
+  EntryPageBlock,
+  pageBlockFromBuffer,
+  PageBlockType,
+  RootPageBlock,
+  verifyPageChecksum,
+} from "./PageBlock.ts";
+import { PageCorruptionError } from "./errors.ts";
+
+export type IntegrityIssueKind =
+  // checksum of the page does not match its content
+  | "checksum"
+  // page type not allowed at this address (or page missing)
+  | "invalid-type"
+  // reference to a page outside of the file
+  | "invalid-address"
+  // nextPage does not point to a page of the expected type
+  | "broken-chain"
+  // prevPage is set but is not the previous page of the chain
+  | "prev-mismatch"
+  // page reachable from two chains
+  | "shared-page"
+  // stored content length does not match the used bytes of the chain
+  | "invalid-length"
+  // stored last page is not the end of the chain
+  | "invalid-last-page"
+  // emptylist entry that is not an Empty page
+  | "emptylist-not-empty"
+  // page that is neither reachable nor free
+  | "leaked-page";
+
+export type IntegrityIssue = {
+  kind: IntegrityIssueKind;
+  // page where the issue was found
+  addr: number;
+  message: string;
+};
+
+export type IntegrityReport = {
+  valid: boolean;
+  pageCount: number;
+  entryPages: number;
+  dataPages: number;
+  // empty pages in the emptylist and emptylist pages
+  freePages: number;
+  issues: Array<IntegrityIssue>;
+};
+
+// owner of pages in the emptylist
+const FREE = -1;
+// type of pages that could not be read
+const UNREADABLE = -1;
+
+/**
+ * Check the structure of the file (including unsaved changes).
+ * Nothing is modified, the cache is not updated.
+ * prevPage of Data pages is only checked when set (older files leave it to 0).
+ */
+export function checkIntegrity(file: PagedFile): IntegrityReport {
+  if (file.closed) {
+    throw new Error(`Cannot check closed file`);
+  }
+  const internal = file[PAGED_FILE_INTERNAL];
+  const format = file.format;
+  const pageCount = internal.getPageCount();
+  const issues: Array<IntegrityIssue> = [];
+  const report = (kind: IntegrityIssueKind, addr: number, message: string) => {
+    issues.push({ kind, addr, message });
+  };
+
+  // first pass: type and links of each page
+  const types = new Int16Array(pageCount).fill(UNREADABLE);
+  const nextPages = new Float64Array(pageCount);
+  const prevPages = new Float64Array(pageCount);
+  // used bytes of chain pages and stored length of Root / Entry pages
+  const usedLengths = new Float64Array(pageCount);
+  const contentLengths = new Map<number, number>();
+  const lastPages = new Map<number, number>();
+  let emptylistAddr = 0;
+  for (let addr = 0; addr < pageCount; addr++) {
+    const page = internal.readCurrentPage(addr);
+    if (page === null) {
+      // root of a new file is created on first access
+      if (addr !== 0) {
+        report("invalid-type", addr, `Page ${addr} does not exist`);
+      }
+      continue;
+    }
+    if (page.fromStorage) {
+      try {
+        verifyPageChecksum(format, addr, page.buffer);
+      } catch (error) {
+        if (error instanceof PageCorruptionError) {
+          report("checksum", addr, error.message);
+          continue;
+        }
+        throw error;
+      }
+    }
+    const type = page.buffer[0];
+    if ((addr === 0) !== (type === PageBlockType.Root)) {
+      report(
+        "invalid-type",
+        addr,
+        addr === 0
+          ? `Page 0 must be the Root page (type ${type})`
+          : `Root page found at ${addr}`,
+      );
+      continue;
+    }
+    types[addr] = type;
+    const block = pageBlockFromBuffer(format, addr, page.buffer);
+    if (block instanceof RootPageBlock) {
+      emptylistAddr = block.emptylistAddr;
+    }
+    if (
+      block instanceof RootPageBlock || block instanceof EntryPageBlock ||
+      block instanceof DataPageBlock || block instanceof EmptylistPageBlock
+    ) {
+      nextPages[addr] = block.nextPage;
+    }
+    if (
+      block instanceof RootPageBlock || block instanceof EntryPageBlock ||
+      block instanceof DataPageBlock
+    ) {
+      const capacity = block.contentFacade.byteLength;
+      usedLengths[addr] = Math.min(block.usedLength, capacity);
+      if (block.usedLength > capacity) {
+        report(
+          "invalid-length",
+          addr,
+          `Page ${addr} uses ${block.usedLength} bytes but can only store ${capacity} bytes`,
+        );
+      }
+    }
+    if (
+      (block instanceof RootPageBlock || block instanceof EntryPageBlock) &&
+      block.contentLength !== null
+    ) {
+      contentLengths.set(addr, block.contentLength);
+    }
+    if (
+      (block instanceof RootPageBlock || block instanceof EntryPageBlock) &&
+      block.lastPage !== null
+    ) {
+      lastPages.set(addr, block.lastPage);
+    }
+    if (block instanceof DataPageBlock || block instanceof EmptylistPageBlock) {
+      prevPages[addr] = block.prevPage;
+    }
+  }
+
+  // second pass: walk chains from root and entry pages
+  const owners = new Map<number, number>();
+  const describe = (owner: number) =>
+    owner === FREE
+      ? "the emptylist"
+      : owner === 0
+      ? "the root chain"
+      : `entry ${owner}`;
+  const claim = (addr: number, owner: number): boolean => {
+    const current = owners.get(addr);
+    if (current !== undefined) {
+      report(
+        "shared-page",
+        addr,
+        `Page ${addr} is used by ${describe(current)} and ${describe(owner)}`,
+      );
+      return false;
+    }
+    owners.set(addr, owner);
+    return true;
+  };
+  const checkLink = (
+    from: number,
+    to: number,
+    expectedType: PageBlockType,
+  ): boolean => {
+    if (to >= pageCount) {
+      report(
+        "invalid-address",
+        from,
+        `Page ${from} references page ${to} outside of the file`,
+      );
+      return false;
+    }
+    if (types[to] === UNREADABLE) {
+      return false;
+    }
+    if (types[to] !== expectedType) {
+      report(
+        "broken-chain",
+        from,
+        `Page ${from} references page ${to} of type ${
+          types[to]
+        } (expected ${expectedType})`,
+      );
+      return false;
+    }
+    return true;
+  };
+  const checkLastPage = (head: number, last: number) => {
+    const lastPage = lastPages.get(head);
+    const expected = last === head ? 0 : last;
+    if (lastPage !== undefined && lastPage !== expected) {
+      report(
+        "invalid-last-page",
+        head,
+        `Page ${head} has last page ${lastPage} (expected ${expected})`,
+      );
+    }
+  };
+  const checkLength = (head: number, usedLength: number) => {
+    const contentLength = contentLengths.get(head);
+    if (contentLength !== undefined && contentLength !== usedLength) {
+      report(
+        "invalid-length",
+        head,
+        `Page ${head} has length ${contentLength} but its chain contains ${usedLength} bytes`,
+      );
+    }
+  };
+  const walkChain = (head: number) => {
+    claim(head, head);
+    let usedLength = usedLengths[head];
+    let prev = head;
+    let next = nextPages[head];
+    while (next !== 0) {
+      if (
+        checkLink(prev, next, PageBlockType.Data) === false ||
+        claim(next, head) === false
+      ) {
+        // broken chains are already reported
+        return;
+      }
+      usedLength += usedLengths[next];
+      if (prevPages[next] !== 0 && prevPages[next] !== prev) {
+        report(
+          "prev-mismatch",
+          next,
+          `Page ${next} has prevPage ${prevPages[next]} (expected ${prev})`,
+        );
+      }
+      prev = next;
+      next = nextPages[next];
+    }
+    checkLength(head, usedLength);
+    checkLastPage(head, prev);
+  };
+  let entryPages = 0;
+  let dataPages = 0;
+  for (let addr = 0; addr < pageCount; addr++) {
+    if (types[addr] === PageBlockType.Root) {
+      walkChain(addr);
+    }
+    if (types[addr] >= PageBlockType.Entry) {
+      entryPages++;
+      walkChain(addr);
+    }
+    if (types[addr] === PageBlockType.Data) {
+      dataPages++;
+    }
+  }
+
+  // emptylist pages and their entries
+  let prevList = 0;
+  let listAddr = emptylistAddr;
+  while (listAddr !== 0) {
+    if (
+      checkLink(prevList, listAddr, PageBlockType.Emptylist) === false ||
+      claim(listAddr, FREE) === false
+    ) {
+      break;
+    }
+    if (prevPages[listAddr] !== 0 && prevPages[listAddr] !== prevList) {
+      report(
+        "prev-mismatch",
+        listAddr,
+        `Emptylist ${listAddr} has prevPage ${
+          prevPages[listAddr]
+        } (expected ${prevList})`,
+      );
+    }
+    const emptylist = new EmptylistPageBlock(
+      format,
+      listAddr,
+      internal.readCurrentPage(listAddr)!.buffer,
+      false,
+    );
+    for (let i = 0; i < emptylist.count; i++) {
+      const addr = emptylist.readAtIndex(i);
+      if (addr === 0 || addr >= pageCount) {
+        report(
+          "invalid-address",
+          listAddr,
+          `Emptylist ${listAddr} contains invalid address ${addr}`,
+        );
+        continue;
+      }
+      if (types[addr] !== PageBlockType.Empty && types[addr] !== UNREADABLE) {
+        report(
+          "emptylist-not-empty",
+          addr,
+          `Page ${addr} is in the emptylist but has type ${types[addr]}`,
+        );
+      }
+      claim(addr, FREE);
+    }
+    prevList = listAddr;
+    listAddr = nextPages[listAddr];
+  }
+
+  // pages not claimed by any chain
+  let freePages = 0;
+  for (let addr = 0; addr < pageCount; addr++) {
+    const owner = owners.get(addr);
+    if (owner === FREE) {
+      freePages++;
+    }
+    if (owner === undefined && types[addr] !== UNREADABLE) {
+      report(
+        "leaked-page",
+        addr,
+        `Page ${addr} (type ${types[addr]}) is neither used nor free`,
+      );
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    pageCount,
+    entryPages,
+    dataPages,
+    freePages,
+    issues,
+  };
+}
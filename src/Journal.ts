@@ -0,0 +1,327 @@
+import {
+  Block,
+  FixedBlockList,
+  IBlocksFixedAny,
+  SimpleBufferFacade,
+} from "./buffer/mod.ts";
+import { IPageStorage } from "./PageStorage.ts";
+
+const JOURNAL_MAGIC = "PGDJOURN";
+const COMMIT_MAGIC = "PGDCOMIT";
+
+const JOURNAL_HEADER = [
+  FixedBlockList.named("magic", Block.staticString(JOURNAL_MAGIC)),
+  FixedBlockList.named("pageSize", Block.uint32),
+] as const;
+
+const JOURNAL_RECORD_HEADER = [
+  FixedBlockList.named("addr", Block.uint32),
+] as const;
+
+const JOURNAL_COMMIT = [
+  FixedBlockList.named("count", Block.uint32),
+  FixedBlockList.named("magic", Block.staticString(COMMIT_MAGIC)),
+] as const;
+
+const HEADER_SIZE = blocksSize(JOURNAL_HEADER);
+const RECORD_HEADER_SIZE = blocksSize(JOURNAL_RECORD_HEADER);
+const COMMIT_SIZE = blocksSize(JOURNAL_COMMIT);
+
+const JOURNAL_OPEN_OPTIONS: Deno.OpenOptions = {
+  write: true,
+  create: true,
+  truncate: true,
+};
+
+export type JournalPage = { addr: number; buffer: Uint8Array };
+
+/**
+ * Redo journal stored next to the main file.
+ * Pages are written to the journal then a commit record is appended,
+ * only then pages are written to the main file and the journal is removed.
+ * A journal without commit record is ignored (main file was not touched).
+ */
+export class Journal {
+  public static pathFor(path: string): string {
+    return path + "-journal";
+  }
+
+  public readonly path: string;
+  public readonly pageSize: number;
+
+  constructor(filePath: string, pageSize: number) {
+    this.path = Journal.pathFor(filePath);
+    this.pageSize = pageSize;
+  }
+
+  public get exists(): boolean {
+    try {
+      Deno.statSync(this.path);
+      return true;
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write pages and commit record to the journal
+   * Pages are encoded one by one so they don't need to be in memory at once
+   */
+  public commit(pages: Iterable<JournalPage>) {
+    const journal = Deno.openSync(this.path, JOURNAL_OPEN_OPTIONS);
+    try {
+      writeAllSync(journal, this.encodeHeader());
+      let count = 0;
+      for (const page of pages) {
+        writeAllSync(journal, this.encodeRecord(page));
+        count++;
+      }
+      // make sure pages are on disk before the commit record
+      journal.syncSync();
+      writeAllSync(journal, encodeCommit(count));
+      journal.syncSync();
+    } finally {
+      journal.close();
+    }
+  }
+
+  public async commitAsync(pages: Iterable<JournalPage>): Promise<void> {
+    const journal = await Deno.open(this.path, JOURNAL_OPEN_OPTIONS);
+    try {
+      await writeAll(journal, this.encodeHeader());
+      let count = 0;
+      for (const page of pages) {
+        await writeAll(journal, this.encodeRecord(page));
+        count++;
+      }
+      await journal.sync();
+      await writeAll(journal, encodeCommit(count));
+      await journal.sync();
+    } finally {
+      journal.close();
+    }
+  }
+
+  // page size stored in the journal header, null if there is no valid journal
+  public readPageSize(): number | null {
+    if (this.exists === false) {
+      return null;
+    }
+    const journal = Deno.openSync(this.path, { read: true });
+    try {
+      const header = readHeader(journal);
+      return header === null ? null : header.read("pageSize");
+    } finally {
+      journal.close();
+    }
+  }
+
+  /**
+   * Number of committed pages, null if the journal is incomplete or invalid
+   * Only the header and the commit record are read
+   */
+  public readCommitCount(): number | null {
+    const journal = this.openCommitted();
+    if (journal === null) {
+      return null;
+    }
+    journal.file.close();
+    return journal.count;
+  }
+
+  /**
+   * Replay a committed journal on the file then remove it.
+   * Pages are read and written one by one.
+   * Return the number of pages restored.
+   */
+  public recover(storage: IPageStorage): number {
+    if (this.exists === false) {
+      return 0;
+    }
+    const journal = this.openCommitted();
+    if (journal !== null) {
+      const { file, count } = journal;
+      try {
+        file.seekSync(HEADER_SIZE, Deno.SeekMode.Start);
+        for (let i = 0; i < count; i++) {
+          const buffer = new Uint8Array(RECORD_HEADER_SIZE + this.pageSize);
+          if (readAllSync(file, buffer) === false) {
+            throw new Error("Unexpected EOF");
+          }
+          const record = new FixedBlockList(
+            JOURNAL_RECORD_HEADER,
+            new SimpleBufferFacade(buffer),
+          );
+          storage.writePage(record.read("addr"), record.readRest());
+        }
+      } finally {
+        file.close();
+      }
+      storage.sync();
+    }
+    this.clear();
+    return journal === null ? 0 : journal.count;
+  }
+
+  /**
+   * Open the journal and validate header and commit record,
+   * return null (file closed) if the journal is incomplete or invalid
+   */
+  private openCommitted(): { file: Deno.FsFile; count: number } | null {
+    const file = Deno.openSync(this.path, { read: true });
+    try {
+      const count = this.readCommit(file);
+      if (count !== null) {
+        return { file, count };
+      }
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    file.close();
+    return null;
+  }
+
+  private readCommit(file: Deno.FsFile): number | null {
+    const size = file.statSync().size;
+    if (size < HEADER_SIZE + COMMIT_SIZE) {
+      return null;
+    }
+    const header = readHeader(file);
+    if (header === null) {
+      return null;
+    }
+    const pageSize = header.read("pageSize");
+    if (pageSize !== this.pageSize) {
+      throw new Error(
+        `Journal page size mismatch ${this.pageSize} === ${pageSize}`,
+      );
+    }
+    const recordSize = RECORD_HEADER_SIZE + this.pageSize;
+    const recordsSize = size - HEADER_SIZE - COMMIT_SIZE;
+    const count = recordsSize / recordSize;
+    if (count !== Math.floor(count)) {
+      return null;
+    }
+    const buffer = new Uint8Array(COMMIT_SIZE);
+    file.seekSync(HEADER_SIZE + recordsSize, Deno.SeekMode.Start);
+    if (readAllSync(file, buffer) === false) {
+      return null;
+    }
+    const commit = new FixedBlockList(
+      JOURNAL_COMMIT,
+      new SimpleBufferFacade(buffer),
+    );
+    if (
+      commit.read("magic") !== COMMIT_MAGIC || commit.read("count") !== count
+    ) {
+      return null;
+    }
+    return count;
+  }
+
+  private encodeHeader(): Uint8Array {
+    const buffer = new Uint8Array(HEADER_SIZE);
+    new FixedBlockList(JOURNAL_HEADER, new SimpleBufferFacade(buffer))
+      .write("magic", null)
+      .write("pageSize", this.pageSize);
+    return buffer;
+  }
+
+  private encodeRecord(page: JournalPage): Uint8Array {
+    if (page.buffer.byteLength !== this.pageSize) {
+      throw new Error(`Invalid journal page size`);
+    }
+    const buffer = new Uint8Array(RECORD_HEADER_SIZE + this.pageSize);
+    new FixedBlockList(JOURNAL_RECORD_HEADER, new SimpleBufferFacade(buffer))
+      .write("addr", page.addr);
+    buffer.set(page.buffer, RECORD_HEADER_SIZE);
+    return buffer;
+  }
+
+  public async clearAsync(): Promise<void> {
+    try {
+      await Deno.remove(this.path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  public clear() {
+    try {
+      Deno.removeSync(this.path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+function blocksSize(blocks: IBlocksFixedAny): number {
+  return blocks.reduce((acc, { block }) => acc + block.read.size, 0);
+}
+
+function encodeCommit(count: number): Uint8Array {
+  const commit = new Uint8Array(COMMIT_SIZE);
+  new FixedBlockList(JOURNAL_COMMIT, new SimpleBufferFacade(commit))
+    .write("count", count)
+    .write("magic", null);
+  return commit;
+}
+
+// header at the start of the file, null if the file is too short or invalid
+function readHeader(file: Deno.FsFile) {
+  const buffer = new Uint8Array(HEADER_SIZE);
+  file.seekSync(0, Deno.SeekMode.Start);
+  if (readAllSync(file, buffer) === false) {
+    return null;
+  }
+  const header = new FixedBlockList(
+    JOURNAL_HEADER,
+    new SimpleBufferFacade(buffer),
+  );
+  if (header.read("magic") !== JOURNAL_MAGIC) {
+    return null;
+  }
+  return header;
+}
+
+// fill the buffer, return false if the end of the file is reached before
+function readAllSync(file: Deno.FsFile, buffer: Uint8Array): boolean {
+  for (let i = 0; i < buffer.byteLength;) {
+    const nread = file.readSync(buffer.subarray(i));
+    if (nread === null) {
+      return false;
+    }
+    i += nread;
+  }
+  return true;
+}
+
+function writeAllSync(file: Deno.FsFile, buffer: Uint8Array) {
+  for (let i = 0; i < buffer.byteLength;) {
+    const nwrite = file.writeSync(buffer.subarray(i));
+    if (nwrite <= 0) {
+      throw new Error("Unexpected return value of write(): " + nwrite);
+    }
+    i += nwrite;
+  }
+}
+
+async function writeAll(file: Deno.FsFile, buffer: Uint8Array): Promise<void> {
+  for (let i = 0; i < buffer.byteLength;) {
+    const nwrite = await file.write(buffer.subarray(i));
+    if (nwrite <= 0) {
+      throw new Error("Unexpected return value of write(): " + nwrite);
+    }
+    i += nwrite;
+  }
+}
@@ -4,7 +4,9 @@ import {
   BUFFER_FACADE_UNSAFE_ACCESS,
   IBufferFacade,
   IWriteValue,
+  LazyBufferFacade,
   PagedBufferFacade,
+  SelectBufferFacade,
 } from "./buffer/mod.ts";
 import { PageBlockType } from "./PageBlock.ts";
 
@@ -16,11 +18,16 @@ export type PageParentRef = {
   deleteDataPageBlock: PagedFile["deleteDataPageBlock"];
   checkCache: PagedFile["checkCache"];
   getInternalRootOrEntry: PagedFile["getInternalRootOrEntry"];
+  checkWritable: PagedFile["checkWritable"];
+  pin: PagedFile["pin"];
+  unpin: PagedFile["unpin"];
 };
 
 export const PAGE_INTERNAL_CLOSE = Symbol("PAGE_INTERNAL_CLOSE");
+export const PAGE_INTERNAL_RESET = Symbol("PAGE_INTERNAL_RESET");
 
-type PageInfo = null | DataPageBlock | RootPageBlock | EntryPageBlock;
+// address of a page of the chain (null before the first page)
+type PageInfo = null | number;
 
 export class Page implements IBufferFacade {
   public readonly addr: number;
@@ -43,36 +50,49 @@ export class Page implements IBufferFacade {
     this.parent = parent;
     this.addr = addr;
     this.pageBlockType = type;
+    // the facade keeps an index of the chain pages by address,
+    // blocks are resolved on each access as they can be evicted from the cache
     this.contentFacade = new PagedBufferFacade<PageInfo>(
       null,
       // getNextPage
-      (prevPage, mode) => {
-        if (prevPage === null) {
-          const mainPage = this.getPage(null, true);
-          return { buffer: mainPage.contentFacade, nextPageInfo: mainPage };
+      (prevAddr, mode) => {
+        if (prevAddr === null) {
+          return { buffer: this.getChainFacade(addr), nextPageInfo: addr };
         }
-        const addr = prevPage.nextPage;
-        if (addr !== 0) {
-          const page = this.getPage(addr, true);
-          return { buffer: page.contentFacade, nextPageInfo: page };
+        const prevPage = this.getChainPage(prevAddr);
+        const nextAddr = prevPage.nextPage;
+        if (nextAddr !== 0) {
+          return {
+            buffer: this.getChainFacade(nextAddr),
+            nextPageInfo: nextAddr,
+          };
         }
         // addr is 0 meaning prev page does not have nextPage
         if (mode === "write") {
           // create new page
           const newPageAddr = parent.getEmptyPageAddr();
-          const page = this.getPage(newPageAddr, false);
+          this.getPage(newPageAddr, false);
           prevPage.nextPage = newPageAddr;
-          return { buffer: page.contentFacade, nextPageInfo: page };
+          this.setPrevPage(newPageAddr, prevAddr);
+          this.updateLastPage(newPageAddr);
+          return {
+            buffer: this.getChainFacade(newPageAddr),
+            nextPageInfo: newPageAddr,
+          };
         }
         // trying to read page 0 => there are no more pages
         return null;
       },
       // deleteNextPage
-      (prevPage) => {
-        if (prevPage === null) {
+      (prevAddr) => {
+        if (prevAddr === null) {
           return;
         }
+        const prevPage = this.getChainPage(prevAddr);
         parent.deleteDataPageBlock(prevPage.nextPage);
+        // prev page is now the end of the chain
+        prevPage.nextPage = 0;
+        this.updateLastPage(prevAddr);
       },
     );
   }
@@ -86,6 +106,7 @@ export class Page implements IBufferFacade {
     if (this.isRoot) {
       throw new Error(`Cannot change root type`);
     }
+    this.parent.checkWritable(`change page type`);
     const internalPage = this.parent.getInternalRootOrEntry(
       this.addr,
       this.pageBlockType,
@@ -106,8 +127,12 @@ export class Page implements IBufferFacade {
     return this.isClosed;
   }
 
+  // stored length of the content (capacity of the chain for older formats)
   public get byteLength(): number {
-    return this.contentFacade.byteLength;
+    if (this.isClosed) {
+      throw new Error(`Cannot read closed page`);
+    }
+    return this.getHeadPage().contentLength ?? this.contentFacade.byteLength;
   }
 
   public [BUFFER_FACADE_UNSAFE_ACCESS] = (
@@ -117,7 +142,10 @@ export class Page implements IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot read closed page`);
     }
-    return this.contentFacade[BUFFER_FACADE_UNSAFE_ACCESS](start, length);
+    return this.contentFacade[BUFFER_FACADE_UNSAFE_ACCESS](
+      start,
+      this.getReadLength(start, length),
+    );
   };
 
   // User is not allowed to close a page because other manager might be using it too
@@ -125,11 +153,19 @@ export class Page implements IBufferFacade {
     this.close();
   };
 
+  // The chain was changed by the file (rollback, vacuum...)
+  public [PAGE_INTERNAL_RESET] = () => {
+    this.contentFacade.reset();
+  };
+
   public read(start?: number, length?: number): Uint8Array {
     if (this.isClosed) {
       throw new Error(`Cannot read closed page`);
     }
-    const result = this.contentFacade.read(start, length);
+    const result = this.contentFacade.read(
+      start,
+      this.getReadLength(start ?? 0, length),
+    );
     this.parent.checkCache();
     return result;
   }
@@ -138,6 +174,10 @@ export class Page implements IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot read closed page`);
     }
+    const contentLength = this.getHeadPage().contentLength;
+    if (contentLength !== null && index >= contentLength) {
+      throw new Error(`Out of range read`);
+    }
     const result = this.contentFacade.readByte(index);
     this.parent.checkCache();
     return result;
@@ -147,7 +187,30 @@ export class Page implements IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot write closed page`);
     }
-    this.contentFacade.write(content, offset);
+    this.parent.checkWritable(`write page`);
+    const head = this.getHeadPage();
+    if (head.contentLength === null) {
+      this.contentFacade.write(content, offset);
+    } else {
+      this.writeContent(head, toBytes(content), offset ?? 0);
+    }
+    this.parent.checkCache();
+    return this;
+  }
+
+  // write at the end of the content, starting from the last page of the chain
+  public append(content: IWriteValue): this {
+    if (this.isClosed) {
+      throw new Error(`Cannot write closed page`);
+    }
+    this.parent.checkWritable(`write page`);
+    const head = this.getHeadPage();
+    if (head.contentLength === null) {
+      throw new Error(
+        `Cannot append to page ${this.addr}: the format does not store the content length`,
+      );
+    }
+    this.appendContent(head, toBytes(content));
     this.parent.checkCache();
     return this;
   }
@@ -157,17 +220,58 @@ export class Page implements IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot write closed page`);
     }
-    this.contentFacade.writeAndCleanup(content, offset);
+    this.parent.checkWritable(`write page`);
+    if (this.getHeadPage().contentLength === null) {
+      this.contentFacade.writeAndCleanup(content, offset);
+    } else {
+      // content ends with the written value
+      this.writeContent(this.getHeadPage(), toBytes(content), offset);
+      this.resizeContent(offset + content.byteLength);
+    }
     this.parent.checkCache();
     return this;
   }
 
-  // delete pages after offset
+  // delete pages after offset (content after offset is removed)
   public cleanupAfter(offset: number): this {
     if (this.isClosed) {
       throw new Error(`Cannot write closed page`);
     }
-    this.contentFacade.cleanupAfter(offset);
+    this.parent.checkWritable(`write page`);
+    const contentLength = this.getHeadPage().contentLength;
+    if (contentLength === null) {
+      this.contentFacade.cleanupAfter(offset);
+    } else {
+      this.resizeContent(Math.min(contentLength, offset));
+    }
+    this.parent.checkCache();
+    return this;
+  }
+
+  // remove content after length
+  public truncate(length: number): this {
+    if (this.isClosed) {
+      throw new Error(`Cannot write closed page`);
+    }
+    this.parent.checkWritable(`write page`);
+    const byteLength = this.byteLength;
+    if (length > byteLength) {
+      throw new Error(
+        `Cannot truncate page to ${length} bytes: content is ${byteLength} bytes`,
+      );
+    }
+    this.resizeContent(length);
+    this.parent.checkCache();
+    return this;
+  }
+
+  // truncate or extend the content with zeros
+  public resize(length: number): this {
+    if (this.isClosed) {
+      throw new Error(`Cannot write closed page`);
+    }
+    this.parent.checkWritable(`write page`);
+    this.resizeContent(length);
     this.parent.checkCache();
     return this;
   }
@@ -176,24 +280,131 @@ export class Page implements IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot write closed page`);
     }
-    this.contentFacade.writeByte(index, val);
+    this.parent.checkWritable(`write page`);
+    const head = this.getHeadPage();
+    const contentLength = head.contentLength;
+    if (contentLength === null || index < contentLength) {
+      this.contentFacade.writeByte(index, val);
+    } else {
+      this.writeContent(head, new Uint8Array([val]), index);
+    }
     this.parent.checkCache();
     return this;
   }
 
+  /**
+   * Remove deleteCount bytes at offset and insert content in their place
+   * Content after the removed bytes is shifted, the removed bytes are returned.
+   * Data pages are split or merged around offset so only the pages
+   * around offset are rewritten (older formats rewrite the whole tail).
+   */
+  public splice(
+    offset: number,
+    deleteCount: number,
+    insert: IWriteValue = new Uint8Array(0),
+  ): Uint8Array {
+    if (this.isClosed) {
+      throw new Error(`Cannot write closed page`);
+    }
+    this.parent.checkWritable(`write page`);
+    const byteLength = this.byteLength;
+    if (offset < 0 || offset > byteLength) {
+      throw new Error(
+        `Cannot splice page at ${offset}: content is ${byteLength} bytes`,
+      );
+    }
+    const count = Math.max(0, Math.min(deleteCount, byteLength - offset));
+    const removed = this.contentFacade.read(offset, count);
+    const content = toBytes(insert);
+    const head = this.getHeadPage();
+    if (head.contentLength === null) {
+      // chain capacity is the content: shift the tail and fill the end with 0
+      const tail = this.contentFacade.read(offset + count);
+      const rewrite = new Uint8Array(
+        content.byteLength + tail.byteLength +
+          Math.max(0, count - content.byteLength),
+      );
+      rewrite.set(content);
+      rewrite.set(tail, content.byteLength);
+      this.contentFacade.write(rewrite, offset);
+    } else if (offset === byteLength) {
+      this.appendContent(head, content);
+    } else {
+      this.spliceContent(head, offset, count, content);
+    }
+    this.parent.checkCache();
+    return removed;
+  }
+
+  /**
+   * Stream the content from start, one chunk per page of the chain
+   * Pages are read when the stream is pulled.
+   */
+  public readable(start = 0): ReadableStream<Uint8Array> {
+    let position = start;
+    return new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        const byteLength = this.byteLength;
+        if (position >= byteLength) {
+          controller.close();
+          return;
+        }
+        const located = this.contentFacade.locate(position);
+        if (located === null) {
+          throw new Error(`Out of range read`);
+        }
+        const end = Math.min(located.start + located.length, byteLength);
+        controller.enqueue(this.read(position, end - position));
+        position = end;
+      },
+    });
+  }
+
+  /**
+   * Write chunks one after the other from offset
+   * When the stream is closed the content ends after the last written byte.
+   * Chunks written before an abort are kept.
+   */
+  public writable(offset = 0): WritableStream<Uint8Array> {
+    let position = offset;
+    return new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        this.write(chunk, position);
+        position += chunk.byteLength;
+      },
+      close: () => {
+        this.resize(position);
+      },
+    });
+  }
+
   public select(start?: number, length?: number): IBufferFacade {
     if (this.isClosed) {
       throw new Error(`Cannot select closed page`);
     }
-    const result = this.contentFacade.select(start, length);
-    this.parent.checkCache();
-    return result;
+    // reads and writes go through the page (content length, read-only mode)
+    return new SelectBufferFacade(this, start, length);
+  }
+
+  // Keep the page (not its Data pages) in the cache until unpin
+  public pin(): this {
+    if (this.isClosed) {
+      throw new Error(`Cannot pin closed page`);
+    }
+    this.parent.pin(this.addr);
+    return this;
+  }
+
+  public unpin(): this {
+    this.parent.unpin(this.addr);
+    return this;
   }
 
   public delete() {
     if (this.isRoot) {
       throw new Error(`Can't delete Root page`);
     }
+    this.parent.checkWritable(`delete page`);
     this.parent.deletePageBlock(this.addr, this.pageBlockType);
     this.close();
   }
@@ -206,6 +417,281 @@ export class Page implements IBufferFacade {
     this.parent.onPageClosed(this.addr);
   }
 
+  // page of the chain by address (the head page is this.addr)
+  private getChainPage(
+    addr: number,
+  ): DataPageBlock | RootPageBlock | EntryPageBlock {
+    return this.getPage(addr === this.addr ? null : addr, true);
+  }
+
+  private getChainFacade(addr: number): IBufferFacade {
+    return new LazyBufferFacade(() => this.getChainPage(addr).usedContent);
+  }
+
+  private getHeadPage(): RootPageBlock | EntryPageBlock {
+    const page = this.getPage(null, true);
+    if (page instanceof DataPageBlock) {
+      throw new Error(`Page ${this.addr} is not a Root or Entry page`);
+    }
+    return page;
+  }
+
+  // length to read from the chain, content after the stored length is not readable
+  private getReadLength(start: number, length?: number): number | undefined {
+    const contentLength = this.getHeadPage().contentLength;
+    if (contentLength === null) {
+      return length;
+    }
+    const end = length === undefined ? contentLength : start + length;
+    if (start > contentLength || end > contentLength) {
+      throw new Error(`Out of range read`);
+    }
+    return end - start;
+  }
+
+  // keep the last page of the chain up to date (when stored)
+  private updateLastPage(addr: number) {
+    const head = this.getHeadPage();
+    if (head.lastPage !== null) {
+      head.setLastPage(addr === this.addr ? 0 : addr);
+    }
+  }
+
+  // write in a format that stores the content length
+  // bytes after the current content are appended to the chain
+  private writeContent(
+    head: RootPageBlock | EntryPageBlock,
+    content: Uint8Array,
+    offset: number,
+  ) {
+    const contentLength = head.contentLength ?? 0;
+    if (offset > contentLength) {
+      this.appendContent(head, new Uint8Array(offset - contentLength));
+    }
+    const overwrite = Math.max(
+      0,
+      Math.min(content.byteLength, contentLength - offset),
+    );
+    if (overwrite > 0) {
+      this.contentFacade.write(content.subarray(0, overwrite), offset);
+    }
+    if (overwrite < content.byteLength) {
+      this.appendContent(head, content.subarray(overwrite));
+    }
+  }
+
+  // fill the last page of the chain then add new pages
+  private appendContent(
+    head: RootPageBlock | EntryPageBlock,
+    content: Uint8Array,
+  ) {
+    const lastPage = head.lastPage ?? 0;
+    let page = this.getChainPage(lastPage === 0 ? this.addr : lastPage);
+    let rest = content;
+    while (true) {
+      rest = rest.subarray(this.fillPage(page, rest));
+      if (rest.byteLength === 0) {
+        break;
+      }
+      page = this.insertPageAfter(page);
+    }
+    head.setContentLength((head.contentLength ?? 0) + content.byteLength);
+    this.contentFacade.onChainExtended();
+  }
+
+  // remove count bytes at offset (inside the content) and insert content
+  private spliceContent(
+    head: RootPageBlock | EntryPageBlock,
+    offset: number,
+    count: number,
+    content: Uint8Array,
+  ) {
+    const contentLength = head.contentLength ?? 0;
+    const located = this.contentFacade.locate(offset)!;
+    const prevLocated = located.start === 0
+      ? null
+      : this.contentFacade.locate(located.start - 1);
+    // pages are about to change size, the index is rebuilt on next access
+    this.contentFacade.reset();
+    const page = this.getChainPage(located.pageInfo!);
+    const pageOffset = offset - located.start;
+    const used = page.usedLength;
+    // bytes of the page after the removed range are written after content
+    const removedInPage = Math.min(count, used - pageOffset);
+    const tail = page.contentFacade.read(
+      pageOffset + removedInPage,
+      used - pageOffset - removedInPage,
+    );
+    this.clearPage(page, pageOffset);
+    // following pages fully removed are deleted, the last one is cut
+    let rest = count - removedInPage;
+    while (rest > 0) {
+      const next = this.getChainPage(page.nextPage);
+      const nextUsed = next.usedLength;
+      if (nextUsed <= rest) {
+        this.deletePageAfter(page);
+        rest -= nextUsed;
+        continue;
+      }
+      const kept = next.contentFacade.read(rest, nextUsed - rest);
+      this.clearPage(next, 0);
+      this.fillPage(next, kept);
+      rest = 0;
+    }
+    // write content then tail, extra bytes go to the next page if it has room
+    // or to new pages inserted after the page
+    let write = concat(content, tail);
+    write = write.subarray(this.fillPage(page, write));
+    if (write.byteLength > 0 && page.nextPage !== 0) {
+      const next = this.getChainPage(page.nextPage);
+      const nextUsed = next.usedLength;
+      if (nextUsed + write.byteLength <= next.contentFacade.byteLength) {
+        const kept = next.contentFacade.read(0, nextUsed);
+        this.clearPage(next, 0);
+        this.fillPage(next, concat(write, kept));
+        write = write.subarray(write.byteLength);
+      }
+    }
+    let last = page;
+    while (write.byteLength > 0) {
+      last = this.insertPageAfter(last);
+      write = write.subarray(this.fillPage(last, write));
+    }
+    // merge small pages with their neighbours
+    this.mergeNextPage(last);
+    if (prevLocated !== null) {
+      this.mergeNextPage(this.getChainPage(prevLocated.pageInfo!));
+    } else {
+      this.mergeNextPage(page);
+    }
+    head.setContentLength(contentLength - count + content.byteLength);
+  }
+
+  // write as much as possible after the used bytes of the page
+  // return the number of bytes written
+  private fillPage(
+    page: DataPageBlock | RootPageBlock | EntryPageBlock,
+    content: Uint8Array,
+  ): number {
+    const used = page.usedLength;
+    const writeSize = Math.min(
+      page.contentFacade.byteLength - used,
+      content.byteLength,
+    );
+    if (writeSize > 0) {
+      page.contentFacade.write(content.subarray(0, writeSize), used);
+      page.setUsedLength(used + writeSize);
+    }
+    return writeSize;
+  }
+
+  // remove bytes after length, removed bytes are set to 0
+  private clearPage(
+    page: DataPageBlock | RootPageBlock | EntryPageBlock,
+    length: number,
+  ) {
+    const used = page.usedLength;
+    if (used > length) {
+      page.contentFacade.write(new Uint8Array(used - length), length);
+      page.setUsedLength(length);
+    }
+  }
+
+  // move content of the next page to the page if it fits
+  private mergeNextPage(page: DataPageBlock | RootPageBlock | EntryPageBlock) {
+    if (page.nextPage === 0) {
+      return;
+    }
+    const next = this.getChainPage(page.nextPage);
+    const nextUsed = next.usedLength;
+    if (page.usedLength + nextUsed > page.contentFacade.byteLength) {
+      return;
+    }
+    this.fillPage(page, next.contentFacade.read(0, nextUsed));
+    this.deletePageAfter(page);
+  }
+
+  private insertPageAfter(
+    page: DataPageBlock | RootPageBlock | EntryPageBlock,
+  ): DataPageBlock | RootPageBlock | EntryPageBlock {
+    const newPageAddr = this.parent.getEmptyPageAddr();
+    const newPage = this.getPage(newPageAddr, false);
+    newPage.nextPage = page.nextPage;
+    page.nextPage = newPageAddr;
+    this.setPrevPage(newPageAddr, page.addr);
+    this.setPrevPage(newPage.nextPage, newPageAddr);
+    if (newPage.nextPage === 0) {
+      this.updateLastPage(newPageAddr);
+    }
+    return newPage;
+  }
+
+  // remove the next page from the chain
+  private deletePageAfter(
+    page: DataPageBlock | RootPageBlock | EntryPageBlock,
+  ) {
+    const next = this.getChainPage(page.nextPage);
+    page.nextPage = next.nextPage;
+    this.setPrevPage(page.nextPage, page.addr);
+    // deleteDataPageBlock deletes the rest of the chain
+    next.nextPage = 0;
+    this.parent.deleteDataPageBlock(next.addr);
+    if (page.nextPage === 0) {
+      this.updateLastPage(page.addr);
+    }
+  }
+
+  // data pages point back to the previous page of the chain
+  private setPrevPage(addr: number, prevAddr: number) {
+    if (addr === 0) {
+      return;
+    }
+    const page = this.getChainPage(addr);
+    if (page instanceof DataPageBlock) {
+      page.prevPage = prevAddr;
+    }
+  }
+
+  // delete pages after the new end, removed bytes are set to 0
+  // so the content can be extended later without reading old data
+  private resizeContent(length: number) {
+    if (length < 0) {
+      throw new Error(`Invalid length ${length}`);
+    }
+    const head = this.getHeadPage();
+    const contentLength = head.contentLength;
+    if (contentLength === null) {
+      const currentLength = this.contentFacade.byteLength;
+      if (length > currentLength) {
+        // bytes after the current length are already 0
+        this.contentFacade.writeByte(length - 1, 0);
+      } else {
+        this.contentFacade.cleanupAfter(Math.max(0, length - 1));
+        const end = Math.min(currentLength, this.contentFacade.byteLength);
+        if (end > length) {
+          this.contentFacade.write(new Uint8Array(end - length), length);
+        }
+      }
+      return;
+    }
+    if (length > contentLength) {
+      this.appendContent(head, new Uint8Array(length - contentLength));
+      return;
+    }
+    if (length === contentLength) {
+      return;
+    }
+    // page containing the new last byte becomes the last page
+    const located = length === 0 ? null : this.contentFacade.locate(length - 1);
+    const page = this.getChainPage(located ? located.pageInfo! : this.addr);
+    this.contentFacade.reset();
+    this.parent.deleteDataPageBlock(page.nextPage);
+    page.nextPage = 0;
+    this.updateLastPage(page.addr);
+    this.clearPage(page, length - (located ? located.start : 0));
+    head.setContentLength(length);
+  }
+
   private getPage(
     addr: number | null,
     mustExists: boolean,
@@ -242,6 +728,19 @@ export function entryPageTypeToPageBlockType(type: number): number {
   return PageBlockType.Entry + type;
 }
 
+function toBytes(content: IWriteValue): Uint8Array {
+  return content instanceof Uint8Array
+    ? content
+    : content[BUFFER_FACADE_UNSAFE_ACCESS]();
+}
+
+function concat(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const result = new Uint8Array(left.byteLength + right.byteLength);
+  result.set(left);
+  result.set(right, left.byteLength);
+  return result;
+}
+
 export function pageBlockTypeToEntryPageType(type: number): number {
   return type - PageBlockType.Entry;
 }
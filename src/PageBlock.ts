@@ -1,14 +1,23 @@
 import {
   Block,
   BUFFER_FACADE_UNSAFE_ACCESS,
+  crc32,
   DirtyManager,
   FixedBlockList,
+  GuardedBufferFacade,
+  IBlockFixed,
   IBufferFacade,
   ReadBlock,
   SimpleBufferFacade,
-  TrackedBufferFacade,
   WriteBlock,
 } from "./buffer/mod.ts";
+import {
+  CHECKSUM_SIZE,
+  formatHeaderSize,
+  PageFormat,
+  writeFormatHeader,
+} from "./PageFormat.ts";
+import { PageCorruptionError } from "./errors.ts";
 
 export enum PageBlockType {
   Empty = 0,
@@ -19,8 +28,11 @@ export enum PageBlockType {
 }
 
 export class PageBlock {
+  public readonly format: PageFormat;
   public readonly pageSize: number;
   public readonly addr: number;
+  // called before each write (savepoints copy the page before it changes)
+  public onBeforeWrite: ((page: PageBlock) => void) | null = null;
 
   // facade without type byte
   protected readonly pageBlockFacade: IBufferFacade;
@@ -28,24 +40,34 @@ export class PageBlock {
   private pageBlockType: PageBlockType | number;
   private isClosed = false;
   private readonly dirtyManager: DirtyManager;
-  private readonly fullFacade: TrackedBufferFacade;
+  private readonly fullFacade: GuardedBufferFacade;
 
   constructor(
-    pageSize: number,
+    format: PageFormat,
     addr: number,
     buffer: Uint8Array,
     type: PageBlockType | number,
     isDirty: boolean,
   ) {
-    this.pageSize = pageSize;
+    this.format = format;
+    this.pageSize = format.pageSize;
     this.addr = addr;
     this.pageBlockType = type;
     this.dirtyManager = new DirtyManager(isDirty);
-    this.fullFacade = new TrackedBufferFacade(
+    this.fullFacade = new GuardedBufferFacade(
       new SimpleBufferFacade(buffer),
-      this.dirtyManager,
+      (reason) => {
+        if (reason === "write") {
+          this.onBeforeWrite?.(this);
+          this.dirtyManager.markDirty();
+        }
+      },
+    );
+    // skip page type byte (and checksum at the end of the page)
+    this.pageBlockFacade = this.fullFacade.select(
+      1,
+      format.checksum ? format.pageSize - 1 - CHECKSUM_SIZE : undefined,
     );
-    this.pageBlockFacade = this.fullFacade.select(1); // skip page type byte
   }
 
   public get type(): number {
@@ -67,25 +89,28 @@ export class PageBlock {
     this.isClosed = true;
   }
 
-  public writeTo(file: Deno.File) {
-    if (this.isClosed) {
-      throw new Error(`Cannot write closed page`);
-    }
-    if (this.dirtyManager.dirty === false) {
+  // copy of the whole page (including type byte and checksum)
+  public readRaw(): Uint8Array {
+    this.updateChecksum();
+    return this.fullFacade.read();
+  }
+
+  // mark the page as clean once its content (from readRaw) has been written
+  public markSaved() {
+    this.dirtyManager.markClean();
+  }
+
+  private updateChecksum() {
+    if (this.format.checksum === false) {
       return;
     }
-    const offset = this.pageSize * this.addr;
-    file.seekSync(offset, Deno.SeekMode.Start);
-    for (let i = 0; i < this.pageSize;) {
-      const nwrite = file.writeSync(
-        this.fullFacade[BUFFER_FACADE_UNSAFE_ACCESS](i),
-      );
-      if (nwrite <= 0) {
-        throw new Error("Unexpected return value of write(): " + nwrite);
-      }
-      i += nwrite;
-    }
-    this.dirtyManager.markClean();
+    const buffer = this.fullFacade[BUFFER_FACADE_UNSAFE_ACCESS]();
+    const checksumOffset = this.pageSize - CHECKSUM_SIZE;
+    WriteBlock.uint32.write(
+      new SimpleBufferFacade(buffer),
+      checksumOffset,
+      crc32(buffer.subarray(0, checksumOffset)),
+    );
   }
 
   protected getType() {
@@ -104,42 +129,169 @@ export class PageBlock {
   }
 }
 
+/**
+ * Make sure the checksum of a page buffer read from the file is valid
+ */
+export function verifyPageChecksum(
+  format: PageFormat,
+  addr: number,
+  buffer: Uint8Array,
+) {
+  if (format.checksum === false) {
+    return;
+  }
+  const checksumOffset = format.pageSize - CHECKSUM_SIZE;
+  const expected = ReadBlock.uint32.read(
+    new SimpleBufferFacade(buffer),
+    checksumOffset,
+  );
+  const actual = crc32(buffer.subarray(0, checksumOffset));
+  if (expected !== actual) {
+    throw new PageCorruptionError(
+      addr,
+      buffer[0],
+      `checksum mismatch (expected ${expected}, computed ${actual})`,
+    );
+  }
+}
+
 export class EmptyPageBlock extends PageBlock {
-  constructor(pageSize: number, addr: number) {
-    const buffer = new Uint8Array(pageSize); // buffer[0] is 0 which correspond to PageType.Empty
-    super(pageSize, addr, buffer, PageBlockType.Empty, true);
+  constructor(format: PageFormat, addr: number) {
+    const buffer = new Uint8Array(format.pageSize); // buffer[0] is 0 which correspond to PageType.Empty
+    super(format, addr, buffer, PageBlockType.Empty, true);
+  }
+}
+
+function contentLengthBlocks() {
+  return [FixedBlockList.named("contentLength", Block.uint32)] as const;
+}
+
+type ContentLengthBlocks = FixedBlockList<
+  ReturnType<typeof contentLengthBlocks>
+>;
+
+// content of Root and Entry pages, starting with its length if stored
+function selectContent(
+  format: PageFormat,
+  facade: IBufferFacade,
+): { lengthBlocks: ContentLengthBlocks | null; contentFacade: IBufferFacade } {
+  if (format.contentLength === false) {
+    return { lengthBlocks: null, contentFacade: facade };
+  }
+  const lengthBlocks = new FixedBlockList(contentLengthBlocks(), facade);
+  return { lengthBlocks, contentFacade: lengthBlocks.selectRest() };
+}
+
+function usedLengthBlocks() {
+  return [FixedBlockList.named("usedLength", Block.uint16)] as const;
+}
+
+type UsedLengthBlocks = FixedBlockList<ReturnType<typeof usedLengthBlocks>>;
+
+// content of chain pages, starting with the number of used bytes if stored
+// (splice can leave pages of a chain partially filled)
+function selectUsedContent(
+  format: PageFormat,
+  facade: IBufferFacade,
+): { usedBlocks: UsedLengthBlocks | null; contentFacade: IBufferFacade } {
+  if (format.contentLength === false) {
+    return { usedBlocks: null, contentFacade: facade };
   }
+  const usedBlocks = new FixedBlockList(usedLengthBlocks(), facade);
+  return { usedBlocks, contentFacade: usedBlocks.selectRest() };
 }
 
-const ROOT_HEADER = [
-  FixedBlockList.named("pageSize", Block.uint16),
-  FixedBlockList.named("emptylistAddr", Block.uint16),
-  FixedBlockList.named("nextPage", Block.uint16),
-] as const;
+// last page of the root chain (entry pages use prevPage)
+function rootTailBlocks(address: IBlockFixed<number>) {
+  return [FixedBlockList.named("lastPage", address)] as const;
+}
+
+function rootHeaderBlocks(address: IBlockFixed<number>) {
+  return [
+    FixedBlockList.named("emptylistAddr", address),
+    FixedBlockList.named("nextPage", address),
+  ] as const;
+}
 
 export class RootPageBlock extends PageBlock {
   public readonly contentFacade: IBufferFacade;
 
-  private readonly blocks: FixedBlockList<typeof ROOT_HEADER>;
+  private readonly blocks: FixedBlockList<
+    ReturnType<typeof rootHeaderBlocks>
+  >;
+  private readonly lengthBlocks: ContentLengthBlocks | null;
+  private readonly tailBlocks:
+    | FixedBlockList<
+      ReturnType<typeof rootTailBlocks>
+    >
+    | null;
+  private readonly usedBlocks: UsedLengthBlocks | null;
 
   constructor(
-    pageSize: number,
+    format: PageFormat,
     buffer: Uint8Array,
     isDirty: boolean,
   ) {
-    super(pageSize, 0, buffer, PageBlockType.Root, isDirty);
-    this.blocks = new FixedBlockList(ROOT_HEADER, this.pageBlockFacade);
-    this.contentFacade = this.blocks.selectRest();
+    super(format, 0, buffer, PageBlockType.Root, isDirty);
+    // format header is validated when the file is opened
+    this.blocks = new FixedBlockList(
+      rootHeaderBlocks(format.addressBlock),
+      this.pageBlockFacade.select(formatHeaderSize(format.version)),
+    );
+    const content = selectContent(format, this.blocks.selectRest());
+    this.lengthBlocks = content.lengthBlocks;
+    this.tailBlocks = this.lengthBlocks === null ? null : new FixedBlockList(
+      rootTailBlocks(format.addressBlock),
+      content.contentFacade,
+    );
+    const used = selectUsedContent(
+      format,
+      this.tailBlocks === null
+        ? content.contentFacade
+        : this.tailBlocks.selectRest(),
+    );
+    this.usedBlocks = used.usedBlocks;
+    this.contentFacade = used.contentFacade;
     if (isDirty) {
-      this.blocks.write("pageSize", pageSize);
-    } else {
-      const storedPageSize = this.blocks.read("pageSize");
-      if (pageSize !== storedPageSize) {
-        throw new Error(
-          `Page size mismatch ${pageSize} === ${storedPageSize}`,
-        );
-      }
+      writeFormatHeader(format, this.pageBlockFacade);
+    }
+  }
+
+  // null when the format does not store the content length
+  public get contentLength(): number | null {
+    return readContentLength(this.lengthBlocks);
+  }
+
+  public setContentLength(length: number) {
+    writeContentLength(this.lengthBlocks, length);
+  }
+
+  // last page of the chain (0 for the root itself), null when not stored
+  public get lastPage(): number | null {
+    if (this.tailBlocks === null) {
+      return null;
     }
+    return this.tailBlocks.read("lastPage");
+  }
+
+  public setLastPage(addr: number) {
+    if (this.tailBlocks === null) {
+      throw new Error(`Last page is not stored in this format`);
+    }
+    this.tailBlocks.write("lastPage", addr);
+  }
+
+  // bytes of contentFacade that are part of the content (all when not stored)
+  public get usedLength(): number {
+    return readUsedLength(this.usedBlocks, this.contentFacade);
+  }
+
+  public setUsedLength(length: number) {
+    writeUsedLength(this.usedBlocks, this.contentFacade, length);
+  }
+
+  public get usedContent(): IBufferFacade {
+    return this.contentFacade.select(0, this.usedLength);
   }
 
   public get nextPage() {
@@ -159,30 +311,37 @@ export class RootPageBlock extends PageBlock {
   }
 }
 
-const EMPTYLIST_HEADER_BLOCKS = [
-  FixedBlockList.named("prevPage", Block.uint16),
-  FixedBlockList.named("nextPage", Block.uint16),
-  FixedBlockList.named("count", Block.uint16),
-] as const;
+function emptylistHeaderBlocks(address: IBlockFixed<number>) {
+  return [
+    FixedBlockList.named("prevPage", address),
+    FixedBlockList.named("nextPage", address),
+    FixedBlockList.named("count", Block.uint16),
+  ] as const;
+}
 
 export class EmptylistPageBlock extends PageBlock {
   public readonly capacity: number;
 
-  protected readonly blocks: FixedBlockList<typeof EMPTYLIST_HEADER_BLOCKS>;
+  protected readonly blocks: FixedBlockList<
+    ReturnType<typeof emptylistHeaderBlocks>
+  >;
   protected readonly contentFacade: IBufferFacade;
 
+  private readonly address: IBlockFixed<number>;
+
   constructor(
-    pageSize: number,
+    format: PageFormat,
     addr: number,
     buffer: Uint8Array,
     isDirty: boolean,
   ) {
-    super(pageSize, addr, buffer, PageBlockType.Emptylist, isDirty);
+    super(format, addr, buffer, PageBlockType.Emptylist, isDirty);
+    this.address = format.addressBlock;
     this.blocks = new FixedBlockList(
-      EMPTYLIST_HEADER_BLOCKS,
+      emptylistHeaderBlocks(this.address),
       this.pageBlockFacade,
     );
-    this.capacity = Math.floor(this.blocks.restLength / ReadBlock.uint16.size); // 2 byte per addrs
+    this.capacity = Math.floor(this.blocks.restLength / this.address.read.size);
     this.contentFacade = this.blocks.selectRest();
   }
 
@@ -220,8 +379,8 @@ export class EmptylistPageBlock extends PageBlock {
       throw new Error(`Cannot pop empty list: no addrs`);
     }
     this.blocks.write("count", currentCount - 1);
-    const offset = (currentCount - 1) * ReadBlock.uint16.size;
-    const poped = ReadBlock.uint16.read(this.contentFacade, offset);
+    const offset = (currentCount - 1) * this.address.read.size;
+    const poped = this.address.read.read(this.contentFacade, offset);
     if (poped === 0) {
       throw new Error(`Found 0 in freelist ?`);
     }
@@ -234,38 +393,61 @@ export class EmptylistPageBlock extends PageBlock {
     }
     const currentCount = this.count;
     this.blocks.write("count", currentCount + 1);
-    const offset = currentCount * ReadBlock.uint16.size;
-    WriteBlock.uint16.write(this.contentFacade, offset, addr);
+    const offset = currentCount * this.address.write.size;
+    this.address.write.write(this.contentFacade, offset, addr);
   }
 
   public readAtIndex(index: number): number {
     if (index >= this.count) {
       throw new Error(`Out of bound read`);
     }
-    const offset = (index) * ReadBlock.uint16.size;
-    return ReadBlock.uint16.read(this.contentFacade, offset);
+    const offset = index * this.address.read.size;
+    return this.address.read.read(this.contentFacade, offset);
   }
 }
 
-const DATA_HEADER_BLOCKS = [
-  FixedBlockList.named("prevPage", Block.uint16),
-  FixedBlockList.named("nextPage", Block.uint16),
-] as const;
+function chainHeaderBlocks(address: IBlockFixed<number>) {
+  return [
+    FixedBlockList.named("prevPage", address),
+    FixedBlockList.named("nextPage", address),
+  ] as const;
+}
 
 export class DataPageBlock extends PageBlock {
   public readonly contentFacade: IBufferFacade;
 
-  private readonly blocks: FixedBlockList<typeof DATA_HEADER_BLOCKS>;
+  private readonly blocks: FixedBlockList<
+    ReturnType<typeof chainHeaderBlocks>
+  >;
+  private readonly usedBlocks: UsedLengthBlocks | null;
 
   constructor(
-    pageSize: number,
+    format: PageFormat,
     addr: number,
     buffer: Uint8Array,
     isDirty: boolean,
   ) {
-    super(pageSize, addr, buffer, PageBlockType.Data, isDirty);
-    this.blocks = new FixedBlockList(DATA_HEADER_BLOCKS, this.pageBlockFacade);
-    this.contentFacade = this.blocks.selectRest();
+    super(format, addr, buffer, PageBlockType.Data, isDirty);
+    this.blocks = new FixedBlockList(
+      chainHeaderBlocks(format.addressBlock),
+      this.pageBlockFacade,
+    );
+    const used = selectUsedContent(format, this.blocks.selectRest());
+    this.usedBlocks = used.usedBlocks;
+    this.contentFacade = used.contentFacade;
+  }
+
+  // bytes of contentFacade that are part of the content (all when not stored)
+  public get usedLength(): number {
+    return readUsedLength(this.usedBlocks, this.contentFacade);
+  }
+
+  public setUsedLength(length: number) {
+    writeUsedLength(this.usedBlocks, this.contentFacade, length);
+  }
+
+  public get usedContent(): IBufferFacade {
+    return this.contentFacade.select(0, this.usedLength);
   }
 
   public get prevPage() {
@@ -285,18 +467,17 @@ export class DataPageBlock extends PageBlock {
   }
 }
 
-const ENTRY_HEADER_BLOCKS = [
-  FixedBlockList.named("prevPage", Block.uint16),
-  FixedBlockList.named("nextPage", Block.uint16),
-] as const;
-
 export class EntryPageBlock extends PageBlock {
   public readonly contentFacade: IBufferFacade;
 
-  private readonly blocks: FixedBlockList<typeof ENTRY_HEADER_BLOCKS>;
+  private readonly blocks: FixedBlockList<
+    ReturnType<typeof chainHeaderBlocks>
+  >;
+  private readonly lengthBlocks: ContentLengthBlocks | null;
+  private readonly usedBlocks: UsedLengthBlocks | null;
 
   constructor(
-    pageSize: number,
+    format: PageFormat,
     addr: number,
     buffer: Uint8Array,
     type: PageBlockType,
@@ -305,9 +486,54 @@ export class EntryPageBlock extends PageBlock {
     if (type < PageBlockType.Entry) {
       throw new Error(`Invalid page type`);
     }
-    super(pageSize, addr, buffer, type, isDirty);
-    this.blocks = new FixedBlockList(ENTRY_HEADER_BLOCKS, this.pageBlockFacade);
-    this.contentFacade = this.blocks.selectRest();
+    super(format, addr, buffer, type, isDirty);
+    this.blocks = new FixedBlockList(
+      chainHeaderBlocks(format.addressBlock),
+      this.pageBlockFacade,
+    );
+    const content = selectContent(format, this.blocks.selectRest());
+    this.lengthBlocks = content.lengthBlocks;
+    const used = selectUsedContent(format, content.contentFacade);
+    this.usedBlocks = used.usedBlocks;
+    this.contentFacade = used.contentFacade;
+  }
+
+  // null when the format does not store the content length
+  public get contentLength(): number | null {
+    return readContentLength(this.lengthBlocks);
+  }
+
+  public setContentLength(length: number) {
+    writeContentLength(this.lengthBlocks, length);
+  }
+
+  // last page of the chain (0 for the entry itself), null when not stored
+  // stored in prevPage which is not used by entry pages
+  public get lastPage(): number | null {
+    if (this.lengthBlocks === null) {
+      return null;
+    }
+    return this.blocks.read("prevPage");
+  }
+
+  public setLastPage(addr: number) {
+    if (this.lengthBlocks === null) {
+      throw new Error(`Last page is not stored in this format`);
+    }
+    this.blocks.write("prevPage", addr);
+  }
+
+  // bytes of contentFacade that are part of the content (all when not stored)
+  public get usedLength(): number {
+    return readUsedLength(this.usedBlocks, this.contentFacade);
+  }
+
+  public setUsedLength(length: number) {
+    writeUsedLength(this.usedBlocks, this.contentFacade, length);
+  }
+
+  public get usedContent(): IBufferFacade {
+    return this.contentFacade.select(0, this.usedLength);
   }
 
   public get type() {
@@ -326,3 +552,71 @@ export class EntryPageBlock extends PageBlock {
     this.blocks.write("nextPage", addr);
   }
 }
+
+function readContentLength(lengthBlocks: ContentLengthBlocks | null) {
+  if (lengthBlocks === null) {
+    return null;
+  }
+  return lengthBlocks.read("contentLength");
+}
+
+function writeContentLength(
+  lengthBlocks: ContentLengthBlocks | null,
+  length: number,
+) {
+  if (lengthBlocks === null) {
+    throw new Error(`Content length is not stored in this format`);
+  }
+  lengthBlocks.write("contentLength", length);
+}
+
+function readUsedLength(
+  usedBlocks: UsedLengthBlocks | null,
+  contentFacade: IBufferFacade,
+) {
+  if (usedBlocks === null) {
+    return contentFacade.byteLength;
+  }
+  return usedBlocks.read("usedLength");
+}
+
+function writeUsedLength(
+  usedBlocks: UsedLengthBlocks | null,
+  contentFacade: IBufferFacade,
+  length: number,
+) {
+  if (usedBlocks === null) {
+    throw new Error(`Used length is not stored in this format`);
+  }
+  if (length > contentFacade.byteLength) {
+    throw new Error(
+      `Invalid used length ${length} (page capacity is ${contentFacade.byteLength})`,
+    );
+  }
+  usedBlocks.write("usedLength", length);
+}
+
+/**
+ * Instantiate a page block from a buffer read on the file
+ * Return null for Empty pages
+ */
+export function pageBlockFromBuffer(
+  format: PageFormat,
+  addr: number,
+  buffer: Uint8Array,
+): RootPageBlock | EmptylistPageBlock | DataPageBlock | EntryPageBlock | null {
+  const type = buffer[0];
+  if (type === PageBlockType.Empty) {
+    return null;
+  }
+  if (type === PageBlockType.Root) {
+    return new RootPageBlock(format, buffer, false);
+  }
+  if (type === PageBlockType.Emptylist) {
+    return new EmptylistPageBlock(format, addr, buffer, false);
+  }
+  if (type === PageBlockType.Data) {
+    return new DataPageBlock(format, addr, buffer, false);
+  }
+  return new EntryPageBlock(format, addr, buffer, type, false);
+}
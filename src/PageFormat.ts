@@ -0,0 +1,230 @@
+import {
+  Block,
+  FixedBlockList,
+  IBlockFixed,
+  IBlocksFixedAny,
+  IBufferFacade,
+  SimpleBufferFacade,
+} from "./buffer/mod.ts";
+import { FileFormatError } from "./errors.ts";
+
+export enum FormatVersion {
+  // Original layout: no version marker, 16 bits page addresses
+  Legacy = 1,
+  // Magic signature, version, page size and feature flags
+  // 32 bits page addresses
+  Magic = 2,
+}
+
+export const CURRENT_FORMAT_VERSION = FormatVersion.Magic;
+
+export const FORMAT_MAGIC = "PGDF";
+
+export enum FormatFlags {
+  None = 0,
+  // Each page ends with a CRC32 of the rest of the page
+  Checksum = 1 << 0,
+  // Chains store their length and can have partially filled pages:
+  // - Root and Entry pages store the length of the chain content (uint32)
+  // - the last page of the chain is stored after it in the Root page,
+  //   in prevPage for Entry pages
+  // - every page of the chain (Root, Entry and Data) stores the number
+  //   of used bytes (uint16) before its content
+  ContentLength = 1 << 1,
+}
+
+const KNOWN_FLAGS = FormatFlags.Checksum | FormatFlags.ContentLength;
+
+export const VALID_PAGE_SIZE = [8, 9, 10, 11, 12, 13, 14, 15].map((v) =>
+  Math.pow(2, v)
+);
+
+export type AddressBits = 16 | 32;
+
+export type PageFormat = {
+  readonly version: FormatVersion;
+  readonly pageSize: number;
+  readonly flags: number;
+  readonly addressBits: AddressBits;
+  readonly addressBlock: IBlockFixed<number>;
+  // Highest page address that can be stored
+  readonly maxAddr: number;
+  readonly checksum: boolean;
+  // FormatFlags.ContentLength (length, last page and used bytes of chains)
+  readonly contentLength: boolean;
+};
+
+export const CHECKSUM_SIZE = 4;
+
+// Format header at the start of the root page (after the type byte)
+// Legacy files start with the page size, other versions with FORMAT_MAGIC
+const FORMAT_HEADERS: { [V in FormatVersion]: IBlocksFixedAny } = {
+  [FormatVersion.Legacy]: [
+    FixedBlockList.named("pageSize", Block.uint16),
+  ],
+  [FormatVersion.Magic]: [
+    FixedBlockList.named("magic", Block.staticString(FORMAT_MAGIC)),
+    FixedBlockList.named("version", Block.uint8),
+    FixedBlockList.named("pageSize", Block.uint16),
+    FixedBlockList.named("flags", Block.uint32),
+  ],
+};
+
+const MAGIC_HEADER = FORMAT_HEADERS[FormatVersion.Magic];
+
+export type FormatHeader = {
+  version: number;
+  pageSize: number;
+  flags: number;
+};
+
+export function createPageFormat(
+  pageSize: number,
+  version: FormatVersion,
+  flags: number = FormatFlags.None,
+): PageFormat {
+  if (flags !== FormatFlags.None && version === FormatVersion.Legacy) {
+    throw new Error(
+      `Format flags require format version ${FormatVersion.Magic} (received ${version})`,
+    );
+  }
+  const checksum = (flags & FormatFlags.Checksum) !== 0;
+  const contentLength = (flags & FormatFlags.ContentLength) !== 0;
+  if (version === FormatVersion.Legacy) {
+    return {
+      version,
+      pageSize,
+      flags,
+      addressBits: 16,
+      addressBlock: Block.uint16,
+      maxAddr: 0xffff,
+      checksum,
+      contentLength,
+    };
+  }
+  if (version === FormatVersion.Magic) {
+    return {
+      version,
+      pageSize,
+      flags,
+      addressBits: 32,
+      addressBlock: Block.uint32,
+      maxAddr: 0xffffffff,
+      checksum,
+      contentLength,
+    };
+  }
+  throw new Error(`Unknown format version ${version}`);
+}
+
+/**
+ * Format of a new file
+ * Content length is stored by all versions with flags (not Legacy)
+ */
+export function createNewPageFormat(
+  pageSize: number,
+  addressBits: AddressBits,
+  checksum: boolean,
+): PageFormat {
+  const version = addressBitsToFormatVersion(addressBits);
+  let flags = checksum ? FormatFlags.Checksum : FormatFlags.None;
+  if (version !== FormatVersion.Legacy) {
+    flags |= FormatFlags.ContentLength;
+  }
+  return createPageFormat(pageSize, version, flags);
+}
+
+export function addressBitsToFormatVersion(bits: AddressBits): FormatVersion {
+  if (bits === 16) {
+    return FormatVersion.Legacy;
+  }
+  if (bits === 32) {
+    return CURRENT_FORMAT_VERSION;
+  }
+  throw new Error(`Invalid addressBits: expecting 16 or 32`);
+}
+
+// Size of the format header for a given version
+export function formatHeaderSize(version: FormatVersion): number {
+  return FORMAT_HEADERS[version].reduce(
+    (acc, { block }) => acc + block.read.size,
+    0,
+  );
+}
+
+/**
+ * Write format header
+ * facade is the root page without the type byte
+ */
+export function writeFormatHeader(format: PageFormat, facade: IBufferFacade) {
+  const schema = FORMAT_HEADERS[format.version];
+  const header = new FixedBlockList(schema, facade);
+  const values: Record<string, unknown> = {
+    magic: null,
+    version: format.version,
+    pageSize: format.pageSize,
+    flags: format.flags,
+  };
+  schema.forEach(({ name }) => {
+    header.write(name, values[name]);
+  });
+}
+
+/**
+ * Read format header from the start of the root page buffer (including type byte)
+ * No validation is done on the values
+ */
+export function readFormatHeader(rootBuffer: Uint8Array): FormatHeader {
+  const facade = new SimpleBufferFacade(rootBuffer).select(1);
+  const version = readFormatVersion(facade);
+  const schema = FORMAT_HEADERS[version as FormatVersion];
+  if (schema === undefined) {
+    return { version, pageSize: 0, flags: FormatFlags.None };
+  }
+  const header = new FixedBlockList(schema, facade);
+  return {
+    version,
+    pageSize: header.read("pageSize") as number,
+    flags: version === FormatVersion.Legacy
+      ? FormatFlags.None
+      : header.read("flags") as number,
+  };
+}
+
+/**
+ * Read and validate the format of an existing file
+ */
+export function readPageFormat(
+  rootBuffer: Uint8Array,
+  pageSize: number,
+): PageFormat {
+  const header = readFormatHeader(rootBuffer);
+  if (header.version > CURRENT_FORMAT_VERSION) {
+    throw new FileFormatError(
+      `File format version ${header.version} is newer than the supported version ${CURRENT_FORMAT_VERSION}`,
+    );
+  }
+  if (header.version < FormatVersion.Legacy) {
+    throw new FileFormatError(`Unknown file format version ${header.version}`);
+  }
+  if (VALID_PAGE_SIZE.includes(header.pageSize) === false) {
+    throw new FileFormatError(`Invalid page size ${header.pageSize} in header`);
+  }
+  if (header.pageSize !== pageSize) {
+    throw new FileFormatError(
+      `Page size mismatch: file uses ${header.pageSize}, expected ${pageSize}`,
+    );
+  }
+  if ((header.flags & ~KNOWN_FLAGS) !== 0) {
+    throw new FileFormatError(`Unsupported feature flags ${header.flags}`);
+  }
+  return createPageFormat(pageSize, header.version, header.flags);
+}
+
+function readFormatVersion(facade: IBufferFacade): number {
+  const magicHeader = new FixedBlockList(MAGIC_HEADER, facade);
+  if (magicHeader.read("magic") === FORMAT_MAGIC) {
+    return magicHeader.read("version") as number;
+  }
+  return FormatVersion.Legacy;
+}
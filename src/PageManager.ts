@@ -1,5 +1,5 @@
 import { Page } from "./Page.ts";
-import type { PagedFile } from "./PagedFile.ts";
+import type { PagedFile, Savepoint } from "./PagedFile.ts";
 
 export interface IPageManager {
   getRootPage(): Page;
@@ -9,6 +9,10 @@ export interface IPageManager {
   getOpenPages(): Array<Page>;
   releaseAllPages(): void;
   releasePage(page: number | Page): void;
+  transaction<T>(fn: (manager: this) => T): T;
+  savepoint(): Savepoint;
+  rollbackTo(savepoint: Savepoint): void;
+  release(savepoint: Savepoint): void;
 }
 
 export type PageManagerParentRef = {
@@ -19,6 +23,10 @@ export type PageManagerParentRef = {
   getOpenPagesForManager: PagedFile["getOpenPagesForManager"];
   releaseAllPagesForManager: PagedFile["releaseAllPagesForManager"];
   releasePageForManager: PagedFile["releasePageForManager"];
+  transactionForManager: PagedFile["transactionForManager"];
+  savepoint: PagedFile["savepoint"];
+  rollbackTo: PagedFile["rollbackTo"];
+  release: PagedFile["release"];
 };
 
 export class PageManager implements IPageManager {
@@ -55,4 +63,20 @@ export class PageManager implements IPageManager {
   public releaseAllPages() {
     return this.parent.releaseAllPagesForManager(this);
   }
+
+  public transaction<T>(fn: (manager: this) => T): T {
+    return this.parent.transactionForManager(this, fn);
+  }
+
+  public savepoint(): Savepoint {
+    return this.parent.savepoint();
+  }
+
+  public rollbackTo(savepoint: Savepoint) {
+    return this.parent.rollbackTo(savepoint);
+  }
+
+  public release(savepoint: Savepoint) {
+    return this.parent.release(savepoint);
+  }
 }
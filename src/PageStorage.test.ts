@@ -0,0 +1,108 @@
+import { MEMORY, PagedFile } from "./PagedFile.ts";
+import { IPageStorage, MemoryPageStorage } from "./PageStorage.ts";
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.114.0/testing/asserts.ts";
+
+Deno.test("Memory storage survives save", () => {
+  const storage = new MemoryPageStorage();
+  const file = new PagedFile(storage, { pageSize: 256 });
+  assertEquals(file.path, MEMORY);
+  const page = file.createPage();
+  page.write(new Uint8Array(300).fill(7));
+  file.save();
+  assertEquals(storage.pageCount(256), 3);
+  file.close();
+  const file2 = new PagedFile(new MemoryPageStorage(storage.toBytes()));
+  assertEquals(file2.pageSize, 256);
+  assertEquals(
+    file2.getPage(page.addr).read(0, 300),
+    new Uint8Array(300).fill(7),
+  );
+  assertEquals(file2.debug(), [
+    "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
+    "001: Entry(4) [nextPage: 2]",
+    "002: Data [prevPage: 1, nextPage: 0]",
+  ]);
+  file2.close();
+});
+
+Deno.test("Custom storage errors are surfaced on save", () => {
+  const memory = new MemoryPageStorage();
+  let failWrites = false;
+  const storage: IPageStorage = {
+    pageCount: (pageSize) => memory.pageCount(pageSize),
+    readPage: (addr, pageSize) => memory.readPage(addr, pageSize),
+    writePage: (addr, buffer) => {
+      if (failWrites) {
+        throw new Error(`Disk full`);
+      }
+      memory.writePage(addr, buffer);
+    },
+    truncate: (pageCount, pageSize) => memory.truncate(pageCount, pageSize),
+    sync: () => memory.sync(),
+    close: () => memory.close(),
+  };
+  const file = new PagedFile(storage, { pageSize: 256 });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  file.save();
+  failWrites = true;
+  file.getRootPage().write(new Uint8Array([4, 5, 6]));
+  assertThrows(() => file.save(), Error, "Disk full");
+  file.close();
+  // previous save is still there
+  const file2 = new PagedFile(new MemoryPageStorage(memory.toBytes()));
+  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+});
+
+Deno.test("Memory storage truncate", () => {
+  const storage = new MemoryPageStorage();
+  storage.writePage(0, new Uint8Array(256).fill(1));
+  storage.writePage(1, new Uint8Array(256).fill(2));
+  storage.truncate(1, 256);
+  assertEquals(storage.pageCount(256), 1);
+  storage.writePage(2, new Uint8Array(256).fill(3));
+  assertEquals(storage.readPage(1, 256), new Uint8Array(256));
+});
+
+function recordingStorage(log: Array<string>): IPageStorage {
+  const memory = new MemoryPageStorage();
+  return {
+    pageCount: (pageSize) => memory.pageCount(pageSize),
+    readPage: (addr, pageSize) => memory.readPage(addr, pageSize),
+    writePage: (addr, buffer) => {
+      log.push(`write ${addr}`);
+      memory.writePage(addr, buffer);
+    },
+    truncate: (pageCount, pageSize) => memory.truncate(pageCount, pageSize),
+    sync: (mode) => {
+      log.push(`sync ${mode}`);
+    },
+    close: () => memory.close(),
+  };
+}
+
+Deno.test("Durability controls sync on save", () => {
+  const log: Array<string> = [];
+  const file = new PagedFile(recordingStorage(log), {
+    pageSize: 256,
+    durability: "data",
+  });
+  file.createPage().write(new Uint8Array([1]));
+  file.save();
+  // data pages are synced before the root
+  assertEquals(log, ["write 1", "sync data", "write 0", "sync data"]);
+  file.close();
+
+  const log2: Array<string> = [];
+  // no sync by default
+  const file2 = new PagedFile(recordingStorage(log2), { pageSize: 256 });
+  file2.createPage().write(new Uint8Array([1]));
+  file2.save();
+  assertEquals(log2, ["write 1", "write 0"]);
+  file2.sync();
+  assertEquals(log2, ["write 1", "write 0", "sync full"]);
+  file2.close();
+});
@@ -0,0 +1,209 @@
+import { FileLock, FileLockMode } from "./FileLock.ts";
+
+/**
+ * Where pages are stored
+ * Page size is defined by the PagedFile and passed to the storage
+ */
+export interface IPageStorage {
+  // Number of pages, not an integer if the size is not a multiple of pageSize
+  pageCount(pageSize: number): number;
+  // Read a copy of the page
+  readPage(addr: number, pageSize: number): Uint8Array;
+  // Write the whole page (buffer length is the page size), buffer must not be kept
+  writePage(addr: number, buffer: Uint8Array): void;
+  // Remove pages after pageCount
+  truncate(pageCount: number, pageSize: number): void;
+  // Make sure written pages are persisted
+  // "data" may skip metadata that is not needed to read the data (fdatasync)
+  sync(mode?: SyncMode): void;
+  close(): void;
+  // Optional async variants (used by AsyncPagedFile)
+  readPageAsync?(addr: number, pageSize: number): Promise<Uint8Array>;
+  writePageAsync?(addr: number, buffer: Uint8Array): Promise<void>;
+  syncAsync?(mode?: SyncMode): Promise<void>;
+}
+
+export type SyncMode = "data" | "full";
+
+export type FilePageStorageOptions = {
+  create?: boolean;
+  // open without write access (create is ignored)
+  readOnly?: boolean;
+  // Advisory lock taken on open and released on close
+  lock?: FileLockMode;
+};
+
+export class FilePageStorage implements IPageStorage {
+  public readonly path: string;
+
+  public readonly lock: FileLock | null;
+
+  private readonly file: Deno.FsFile;
+
+  constructor(
+    path: string,
+    { create = true, readOnly = false, lock }: FilePageStorageOptions = {},
+  ) {
+    this.path = path;
+    this.file = Deno.openSync(
+      path,
+      readOnly ? { read: true } : { read: true, write: true, create: create },
+    );
+    this.lock = lock ? new FileLock(this.file, path, lock) : null;
+    try {
+      this.lock?.acquire();
+    } catch (error) {
+      this.file.close();
+      throw error;
+    }
+  }
+
+  public pageCount(pageSize: number): number {
+    return this.file.statSync().size / pageSize;
+  }
+
+  public readPage(addr: number, pageSize: number): Uint8Array {
+    const buffer = new Uint8Array(pageSize);
+    this.file.seekSync(addr * pageSize, Deno.SeekMode.Start);
+    for (let i = 0; i < pageSize;) {
+      const nread = this.file.readSync(buffer.subarray(i));
+      if (nread === null) {
+        throw new Error("Unexpected EOF");
+      }
+      i += nread;
+    }
+    return buffer;
+  }
+
+  public writePage(addr: number, buffer: Uint8Array) {
+    this.file.seekSync(addr * buffer.byteLength, Deno.SeekMode.Start);
+    for (let i = 0; i < buffer.byteLength;) {
+      const nwrite = this.file.writeSync(buffer.subarray(i));
+      if (nwrite <= 0) {
+        throw new Error("Unexpected return value of write(): " + nwrite);
+      }
+      i += nwrite;
+    }
+  }
+
+  public truncate(pageCount: number, pageSize: number) {
+    this.file.truncateSync(pageCount * pageSize);
+  }
+
+  public sync(mode: SyncMode = "full") {
+    if (mode === "data") {
+      this.file.syncDataSync();
+      return;
+    }
+    this.file.syncSync();
+  }
+
+  public close() {
+    this.lock?.release();
+    this.file.close();
+  }
+
+  public async readPageAsync(
+    addr: number,
+    pageSize: number,
+  ): Promise<Uint8Array> {
+    const buffer = new Uint8Array(pageSize);
+    await this.file.seek(addr * pageSize, Deno.SeekMode.Start);
+    for (let i = 0; i < pageSize;) {
+      const nread = await this.file.read(buffer.subarray(i));
+      if (nread === null) {
+        throw new Error("Unexpected EOF");
+      }
+      i += nread;
+    }
+    return buffer;
+  }
+
+  public async writePageAsync(addr: number, buffer: Uint8Array) {
+    await this.file.seek(addr * buffer.byteLength, Deno.SeekMode.Start);
+    for (let i = 0; i < buffer.byteLength;) {
+      const nwrite = await this.file.write(buffer.subarray(i));
+      if (nwrite <= 0) {
+        throw new Error("Unexpected return value of write(): " + nwrite);
+      }
+      i += nwrite;
+    }
+  }
+
+  public async syncAsync(mode: SyncMode = "full") {
+    if (mode === "data") {
+      await this.file.syncData();
+      return;
+    }
+    await this.file.sync();
+  }
+}
+
+/**
+ * Pages stored in a growable buffer, saved pages survive until close
+ */
+export class MemoryPageStorage implements IPageStorage {
+  private buffer: Uint8Array;
+  private byteLength: number;
+  private isClosed = false;
+
+  constructor(initial?: Uint8Array) {
+    this.buffer = initial ? initial.slice() : new Uint8Array(0);
+    this.byteLength = this.buffer.byteLength;
+  }
+
+  public pageCount(pageSize: number): number {
+    return this.byteLength / pageSize;
+  }
+
+  public readPage(addr: number, pageSize: number): Uint8Array {
+    this.ensureOpen();
+    const offset = addr * pageSize;
+    if (offset + pageSize > this.byteLength) {
+      throw new Error("Unexpected EOF");
+    }
+    return this.buffer.slice(offset, offset + pageSize);
+  }
+
+  public writePage(addr: number, buffer: Uint8Array) {
+    this.ensureOpen();
+    const offset = addr * buffer.byteLength;
+    const end = offset + buffer.byteLength;
+    if (end > this.buffer.byteLength) {
+      const grown = new Uint8Array(Math.max(end, this.buffer.byteLength * 2));
+      grown.set(this.buffer.subarray(0, this.byteLength));
+      this.buffer = grown;
+    }
+    this.buffer.set(buffer, offset);
+    this.byteLength = Math.max(this.byteLength, end);
+  }
+
+  public truncate(pageCount: number, pageSize: number) {
+    this.ensureOpen();
+    const byteLength = pageCount * pageSize;
+    if (byteLength < this.byteLength) {
+      // removed bytes must read as 0 if the storage grows again
+      this.buffer.fill(0, byteLength, this.byteLength);
+    }
+    this.byteLength = Math.min(this.byteLength, byteLength);
+  }
+
+  public sync() {
+    // nothing to do
+  }
+
+  public close() {
+    this.isClosed = true;
+  }
+
+  // copy of the stored bytes
+  public toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.byteLength);
+  }
+
+  private ensureOpen() {
+    if (this.isClosed) {
+      throw new Error(`Cannot use closed storage`);
+    }
+  }
+}
@@ -1,5 +1,26 @@
-import { PagedFile } from "./PagedFile.ts";
-import { assertEquals } from "https://deno.land/std@0.114.0/testing/asserts.ts";
+import { MEMORY, PagedFile } from "./PagedFile.ts";
+import {
+  createPageFormat,
+  FormatVersion,
+  writeFormatHeader,
+} from "./PageFormat.ts";
+import { PageBlockType } from "./PageBlock.ts";
+import { SimpleBufferFacade } from "./buffer/mod.ts";
+import { Journal } from "./Journal.ts";
+import {
+  FileFormatError,
+  FileLockedError,
+  PageCorruptionError,
+  ReadOnlyError,
+} from "./errors.ts";
+import { FileLock } from "./FileLock.ts";
+import { checkIntegrity } from "./Integrity.ts";
+import { IPageStorage, MemoryPageStorage } from "./PageStorage.ts";
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.114.0/testing/asserts.ts";
 import { encode } from "https://deno.land/std@0.114.0/encoding/hex.ts";
 import { resolve } from "https://deno.land/std@0.114.0/path/mod.ts";
 
@@ -9,6 +30,15 @@ function _toHexString(data: Uint8Array): string {
   return decoder.decode(encode(data));
 }
 
+function existsSync(path: string): boolean {
+  try {
+    Deno.statSync(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 const fixtureFolder = resolve(
   Deno.cwd(),
   "src",
@@ -77,7 +107,7 @@ Deno.test("Write root without saving", () => {
   assertEquals(file.getRootPage().read(0, 3), new Uint8Array([255, 255, 255]));
   file.close();
   const file2 = new PagedFile(path, { pageSize: 256 });
-  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([0, 0, 0]));
+  assertEquals(file2.getRootPage().read(), new Uint8Array(0));
   assertEquals(file2.debug(), []);
   file2.close();
   Deno.removeSync(path);
@@ -110,7 +140,7 @@ Deno.test("Write root multi pages at index", () => {
   assertEquals(file.debug(), [
     "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 1]",
     "001: Data [prevPage: 0, nextPage: 2]",
-    "002: Data [prevPage: 0, nextPage: 0]",
+    "002: Data [prevPage: 1, nextPage: 0]",
   ]);
   file.close();
   Deno.removeSync(path);
@@ -130,8 +160,8 @@ Deno.test({
     assertEquals(file.debug(), [
       "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
       "001: Entry(4) [nextPage: 2]",
-      "002: Data [prevPage: 0, nextPage: 3]",
-      "003: Data [prevPage: 0, nextPage: 0]",
+      "002: Data [prevPage: 1, nextPage: 3]",
+      "003: Data [prevPage: 2, nextPage: 0]",
     ]);
     file.close();
     Deno.removeSync(path);
@@ -152,7 +182,7 @@ Deno.test("Create page custom type", () => {
   assertEquals(file.debug(), [
     "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
     "001: Entry(46) [nextPage: 2]",
-    "002: Data [prevPage: 0, nextPage: 0]",
+    "002: Data [prevPage: 1, nextPage: 0]",
   ]);
   file.close();
   const file2 = new PagedFile(path, { pageSize: 256 });
@@ -188,7 +218,1122 @@ Deno.test("Can read / wripe page even if cache is clean", () => {
   assertEquals(file.debug(), [
     "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
     "001: Entry(4) [nextPage: 2]",
-    "002: Data [prevPage: 0, nextPage: 0]",
+    "002: Data [prevPage: 1, nextPage: 0]",
+  ]);
+  file.close();
+});
+
+Deno.test("Emptylist pages are linked to the previous emptylist", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const pages = Array.from({ length: 100 }, () => file.createPage());
+  pages.forEach((page) => page.delete());
+  file.save();
+  const emptylists = file.debug().filter((line) => line.includes("Emptylist"));
+  assertEquals(emptylists.length, 2);
+  const firstAddr = parseInt(emptylists[0].slice(0, 3));
+  assertEquals(emptylists[1].includes(`[prevPage: ${firstAddr},`), true);
+  file.close();
+});
+
+Deno.test("Emptylist pages are reused once empty", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const pages = Array.from({ length: 100 }, () => file.createPage());
+  const size = file.unsavedSize;
+  pages.forEach((page) => page.delete());
+  // the last emptylist page is reused and unlinked from the previous one
+  for (let i = 0; i < 100; i++) {
+    file.createPage();
+  }
+  assertEquals(file.unsavedSize, size);
+  file.save();
+  assertEquals(
+    file.debug().filter((line) => line.includes("Emptylist")),
+    [],
+  );
+  file.createPage();
+  assertEquals(file.unsavedSize, size + 256);
+  file.close();
+});
+
+Deno.test("Cleanup unlinks deleted pages", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  page.write(new Uint8Array(600).fill(1));
+  page.cleanupAfter(10);
+  file.save();
+  assertEquals(file.debug()[page.addr].endsWith("[nextPage: 0]"), true);
+  // freed pages can be reused without changing the page
+  const other = file.createPage();
+  other.write(new Uint8Array(600).fill(2));
+  assertEquals(page.read(0, 10), new Uint8Array(10).fill(1));
+  assertEquals(other.read(0, 600), new Uint8Array(600).fill(2));
+  file.close();
+});
+
+Deno.test("New files use 32 bits addresses", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file.format.addressBits, 32);
+  file.getRootPage().write(new Uint8Array(300));
+  file.save();
+  file.close();
+  const file2 = new PagedFile(path, { pageSize: 256, addressBits: 16 });
+  assertEquals(file2.format.addressBits, 32);
+  assertEquals(file2.debug(), [
+    "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 1]",
+    "001: Data [prevPage: 0, nextPage: 0]",
+  ]);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Legacy 16 bits addresses file", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256, addressBits: 16 });
+  assertEquals(file.format.version, FormatVersion.Legacy);
+  const page = file.createPage();
+  page.write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  // Legacy layout: page size is right after the type byte
+  const raw = Deno.readFileSync(path);
+  assertEquals(raw.subarray(0, 3), new Uint8Array([1, 1, 0]));
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file2.format.version, FormatVersion.Legacy);
+  assertEquals(file2.getPage(page.addr).read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Save with journal", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256, journal: true });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  file.save();
+  assertEquals(existsSync(Journal.pathFor(path)), false);
+  file.close();
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  Deno.removeSync(path);
+  // there is no file to put the journal next to
+  assertThrows(
+    () => new PagedFile(MEMORY, { journal: true }),
+    Error,
+    "Cannot use a journal without a file path",
+  );
+  assertThrows(
+    () => new PagedFile(new MemoryPageStorage(), { journal: true }),
+    Error,
+    "Cannot use a journal without a file path",
+  );
+});
+
+Deno.test("Committed journal is replayed on open", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  // simulate a crash after the journal commit
+  const root = Deno.readFileSync(path);
+  // content starts after the root header (30 bytes)
+  root.set([4, 5, 6], 30);
+  new Journal(path, 256).commit([{ addr: 0, buffer: root }]);
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(existsSync(Journal.pathFor(path)), false);
+  const rootPage = file2.getRootPage();
+  assertEquals(rootPage.read(), new Uint8Array([4, 5, 6]));
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Incomplete journal is discarded on open", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  const root = Deno.readFileSync(path);
+  root.set([4, 5, 6], 10);
+  new Journal(path, 256).commit([{ addr: 0, buffer: root }]);
+  // simulate a crash before the commit record is written
+  const journal = Deno.readFileSync(Journal.pathFor(path));
+  Deno.writeFileSync(Journal.pathFor(path), journal.subarray(0, -4));
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(existsSync(Journal.pathFor(path)), false);
+  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Journal pages are replayed in order", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const journal = new Journal(path, 256);
+  journal.commit([
+    { addr: 1, buffer: new Uint8Array(256).fill(1) },
+    { addr: 2, buffer: new Uint8Array(256).fill(2) },
+    { addr: 1, buffer: new Uint8Array(256).fill(3) },
+  ]);
+  assertEquals(journal.readPageSize(), 256);
+  assertEquals(journal.readCommitCount(), 3);
+  const storage = new MemoryPageStorage();
+  assertEquals(journal.recover(storage), 3);
+  assertEquals(journal.exists, false);
+  assertEquals(storage.readPage(1, 256), new Uint8Array(256).fill(3));
+  assertEquals(storage.readPage(2, 256), new Uint8Array(256).fill(2));
+});
+
+Deno.test("Rollback discard unsaved changes", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  const page1 = file.createPage();
+  page1.write(new Uint8Array([1, 2, 3]));
+  const page2 = file.createPage(3);
+  file.save();
+  page1.write(new Uint8Array([4, 5, 6]));
+  page1.write(new Uint8Array(300), 10);
+  page2.delete();
+  const page3 = file.createPage();
+  page3.write(new Uint8Array([7, 8, 9]));
+  file.rollback();
+  assertEquals(page1.closed, false);
+  assertEquals(page1.read(0, 3), new Uint8Array([1, 2, 3]));
+  assertEquals(page3.closed, true);
+  assertEquals(file.unsavedSize, file.size);
+  assertEquals(file.getPage(2, 3).closed, false);
+  file.save();
+  assertEquals(file.debug(), [
+    "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
+    "001: Entry(4) [nextPage: 0]",
+    "002: Entry(7) [nextPage: 0]",
+  ]);
+  file.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Rollback in memory file", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  page.write(new Uint8Array([1, 2, 3]));
+  file.rollback();
+  assertEquals(page.closed, true);
+  assertEquals(file.createPage().addr, 1);
+  file.close();
+});
+
+Deno.test("Transaction revert changes when it throws", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page1 = file.createPage();
+  page1.write(new Uint8Array([1, 2, 3]));
+  const page2 = file.createPage();
+  page2.write(new Uint8Array(300));
+  assertThrows(
+    () =>
+      file.transaction(() => {
+        page1.write(new Uint8Array([4, 5, 6]));
+        page2.delete();
+        const page3 = file.createPage();
+        page3.write(new Uint8Array(600));
+        throw new Error("Oops");
+      }),
+    Error,
+    "Oops",
+  );
+  assertEquals(page1.read(0, 3), new Uint8Array([1, 2, 3]));
+  assertEquals(file.getPage(page2.addr).byteLength, 300);
+  assertEquals(file.unsavedSize, 4 * 256);
+  // freelist is restored: next page is created at the end
+  assertEquals(file.createPage().addr, 4);
+  file.close();
+});
+
+Deno.test("Transaction keep changes when it succeed", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const manager = file.createManager();
+  const page = manager.transaction((m) => {
+    const page = m.createPage();
+    page.write(new Uint8Array([1, 2, 3]));
+    return page;
+  });
+  assertEquals(manager.getOpenPages(), [page]);
+  assertEquals(page.read(0, 3), new Uint8Array([1, 2, 3]));
+  file.close();
+});
+
+Deno.test("Transaction reject async functions before running them", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  let called = false;
+  assertThrows(
+    () =>
+      file.transaction(async () => {
+        called = true;
+        await Promise.resolve();
+      }),
+    Error,
+    "Transaction function must be synchronous",
+  );
+  assertEquals(called, false);
+  // a promise returned by a sync function is rolled back
+  assertThrows(
+    () =>
+      file.transaction(() => {
+        file.createPage();
+        return Promise.resolve();
+      }),
+    Error,
+    "Transaction function must be synchronous",
+  );
+  assertEquals(file.createPage().addr, 1);
+  file.close();
+});
+
+Deno.test("Nested savepoints", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const root = file.getRootPage();
+  root.write(new Uint8Array([1]));
+  const sp1 = file.savepoint();
+  root.write(new Uint8Array([2]));
+  const page = file.createPage();
+  const sp2 = file.savepoint();
+  root.write(new Uint8Array([3]));
+  page.delete();
+  file.rollbackTo(sp2);
+  assertEquals(root.read(0, 1), new Uint8Array([2]));
+  assertEquals(file.getPage(page.addr).closed, false);
+  file.rollbackTo(sp1);
+  assertEquals(root.read(0, 1), new Uint8Array([1]));
+  assertThrows(() => file.getPage(page.addr));
+  assertThrows(() => file.release(sp2), Error, "Invalid savepoint");
+  file.release(sp1);
+  assertEquals(file.createPage().addr, 1);
+  file.close();
+});
+
+Deno.test("Savepoints keep changes of released nested savepoints", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const pages = [1, 2, 3].map((v) =>
+    file.createPage().write(new Uint8Array(300).fill(v))
+  );
+  const sp1 = file.savepoint();
+  pages[0].write(new Uint8Array([4]));
+  const sp2 = file.savepoint();
+  pages[0].write(new Uint8Array([5]));
+  pages[1].write(new Uint8Array([6]), 280);
+  file.release(sp2);
+  file.rollbackTo(sp1);
+  assertEquals(pages[0].read(0, 1), new Uint8Array([1]));
+  assertEquals(pages[1].read(280, 1), new Uint8Array([2]));
+  // the savepoint stays active after a rollback
+  pages[2].write(new Uint8Array([7]));
+  file.rollbackTo(sp1);
+  assertEquals(pages[2].read(0, 1), new Uint8Array([3]));
+  file.release(sp1);
+  file.close();
+});
+
+Deno.test("Checksum detect corrupted page", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256, checksum: true });
+  const page = file.createPage();
+  page.write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file2.format.checksum, true);
+  assertEquals(file2.getPage(page.addr).read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  // flip a bit in the content of page 1
+  const raw = Deno.readFileSync(path);
+  raw[256 + 20] ^= 1;
+  Deno.writeFileSync(path, raw);
+  const file3 = new PagedFile(path, { pageSize: 256 });
+  const error = assertThrows(
+    () => file3.getPage(page.addr),
+    PageCorruptionError,
+    "checksum mismatch",
+  ) as PageCorruptionError;
+  assertEquals(error.addr, 1);
+  assertEquals(error.pageType, 4);
+  file3.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Root page starts with magic header", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  assertEquals(file.format.version, FormatVersion.Magic);
+  file.getRootPage().read();
+  file.save();
+  file.close();
+  const raw = Deno.readFileSync(path);
+  assertEquals(decoder.decode(raw.subarray(1, 5)), "PGDF");
+  assertEquals(raw[5], FormatVersion.Magic);
+  Deno.removeSync(path);
+});
+
+Deno.test("Reject invalid files on open", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const random = new Uint8Array(512);
+  random.fill(42);
+  Deno.writeFileSync(path, random);
+  assertThrows(
+    () => new PagedFile(path, { pageSize: 256 }),
+    FileFormatError,
+    "not a paged file",
+  );
+  Deno.writeFileSync(path, new Uint8Array(300));
+  assertThrows(
+    () => new PagedFile(path, { pageSize: 256 }),
+    FileFormatError,
+    "not a multiple of the page size",
+  );
+  // newer version
+  Deno.removeSync(path);
+  const file2 = new PagedFile(path, { pageSize: 256 });
+  file2.getRootPage().read();
+  file2.save();
+  file2.close();
+  const raw = Deno.readFileSync(path);
+  raw[5] = 99;
+  Deno.writeFileSync(path, raw);
+  assertThrows(
+    () => new PagedFile(path, { pageSize: 256 }),
+    FileFormatError,
+    "File format version 99 is newer than the supported version",
+  );
+  assertThrows(
+    () => new PagedFile(path, { pageSize: 512 }),
+    FileFormatError,
+  );
+  Deno.removeSync(path);
+});
+
+Deno.test("Upgrade older format on open", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256, addressBits: 16 });
+  file.getRootPage().read();
+  file.save();
+  file.close();
+  const upgradedFrom: Array<number> = [];
+  const file2 = new PagedFile(path, {
+    pageSize: 256,
+    upgrades: {
+      [FormatVersion.Legacy]: (context) => {
+        upgradedFrom.push(context.version);
+        assertEquals(context.pageCount, 1);
+        // empty root page using the magic header layout
+        const root = new Uint8Array(context.pageSize);
+        root[0] = PageBlockType.Root;
+        writeFormatHeader(
+          createPageFormat(context.pageSize, FormatVersion.Magic),
+          new SimpleBufferFacade(root).select(1),
+        );
+        context.writePage(0, root);
+      },
+    },
+  });
+  assertEquals(upgradedFrom, [FormatVersion.Legacy]);
+  assertEquals(file2.format.version, FormatVersion.Magic);
+  assertEquals(file2.debug(), [
+    "000: Root [pageSize: 256, emptylistAddr: 0, nextPage: 0]",
   ]);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Detect page size of existing file", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 1024 });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(file2.pageSize, 1024);
+  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  Deno.removeSync(path);
+  const file3 = new PagedFile(path);
+  assertEquals(file3.pageSize, 4096);
+  file3.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Detect page size of legacy file", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 512, addressBits: 16 });
+  file.getRootPage().read();
+  file.save();
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(file2.pageSize, 512);
+  assertEquals(file2.format.version, FormatVersion.Legacy);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Memory file to bytes and back", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  file.getRootPage().write(new Uint8Array([1, 2, 3]));
+  const page = file.createPage();
+  page.write(new Uint8Array(300).fill(5));
+  // unsaved changes are included
+  const bytes = file.toBytes();
+  assertEquals(bytes.byteLength, 3 * 256);
+  file.save();
+  assertEquals(file.debug().length, 3);
+  file.close();
+  const file2 = PagedFile.fromBytes(bytes);
+  assertEquals(file2.path, MEMORY);
+  assertEquals(file2.pageSize, 256);
+  assertEquals(file2.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  assertEquals(
+    file2.getPage(page.addr).read(0, 300),
+    new Uint8Array(300).fill(5),
+  );
+  file2.close();
+});
+
+Deno.test("Save memory file as a new file", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(MEMORY, { pageSize: 256, checksum: true });
+  const page = file.createPage();
+  page.write(new Uint8Array([4, 5, 6]));
+  file.saveAs(path);
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(file2.format.checksum, true);
+  assertEquals(file2.getPage(page.addr).read(0, 3), new Uint8Array([4, 5, 6]));
+  assertThrows(() => file2.saveAs(path), Error, "Cannot saveAs");
+  // same file through another path
+  const other = path.replace(fixtureFolder, `${fixtureFolder}/../fixture`);
+  assertThrows(() => file2.saveAs(other), Error, "Cannot saveAs");
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Save as a locked file throws before truncating it", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const target = new PagedFile(path, { pageSize: 256, lock: true });
+  target.getRootPage().write(new Uint8Array([1, 2, 3]));
+  target.save();
+  const size = Deno.statSync(path).size;
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  file.createPage();
+  assertThrows(() => file.saveAs(path), FileLockedError);
+  assertEquals(Deno.statSync(path).size, size);
+  assertEquals(target.getRootPage().read(0, 3), new Uint8Array([1, 2, 3]));
+  file.close();
+  target.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Lock prevent opening the file twice", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256, lock: true });
+  assertEquals(FileLock.heldMode(path), "exclusive");
+  assertThrows(
+    () => new PagedFile(path, { pageSize: 256, lock: true }),
+    FileLockedError,
+  );
+  // a failed open does not release the lock
+  assertEquals(FileLock.heldMode(path), "exclusive");
+  file.close();
+  assertEquals(FileLock.heldMode(path), null);
+  const file2 = new PagedFile(path, { pageSize: 256, lock: true });
+  file2.close();
+  // files are not locked by default
+  new PagedFile(path, { pageSize: 256 }).close();
+  assertEquals(FileLock.heldMode(path), null);
+  assertThrows(
+    () => new PagedFile(MEMORY, { lock: true }),
+    Error,
+    "Cannot lock",
+  );
+  Deno.removeSync(path);
+});
+
+Deno.test("Shared and exclusive locks", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const open = () =>
+    Deno.openSync(path, { read: true, write: true, create: true });
+  const files = [open(), open(), open()];
+  const reader1 = new FileLock(files[0], path, "shared");
+  const reader2 = new FileLock(files[1], path, "shared");
+  const writer = new FileLock(files[2], path, "exclusive");
+  reader1.acquire();
+  reader2.acquire();
+  assertEquals(reader1.locked && reader2.locked, true);
+  assertEquals(FileLock.heldMode(path), "shared");
+  assertThrows(() => writer.acquire(), FileLockedError);
+  assertEquals(writer.locked, false);
+  reader1.release();
+  assertThrows(() => writer.acquire(), FileLockedError);
+  reader2.release();
+  assertEquals(FileLock.heldMode(path), null);
+  writer.acquire();
+  assertEquals(FileLock.heldMode(path), "exclusive");
+  assertThrows(() => reader1.acquire(), FileLockedError);
+  writer.release();
+  files.forEach((file) => file.close());
+  Deno.removeSync(path);
+});
+
+Deno.test("Read-only file rejects changes", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  const page = file.createPage();
+  page.write(new Uint8Array([1, 2, 3]));
+  file.save();
+  file.close();
+  const file2 = new PagedFile(path, { readOnly: true, lock: true });
+  // readers share the lock
+  const file3 = new PagedFile(path, { readOnly: true, lock: true });
+  file3.close();
+  assertThrows(() => new PagedFile(path, { lock: true }), FileLockedError);
+  const page2 = file2.getPage(page.addr);
+  assertEquals(page2.read(0, 3), new Uint8Array([1, 2, 3]));
+  assertThrows(() => page2.write(new Uint8Array([4])), ReadOnlyError);
+  assertThrows(() => page2.writeByte(0, 4), ReadOnlyError);
+  assertThrows(
+    () => page2.select(0, 3).write(new Uint8Array([4])),
+    ReadOnlyError,
+  );
+  assertThrows(() => page2.delete(), ReadOnlyError);
+  assertThrows(() => file2.createPage(), ReadOnlyError);
+  assertThrows(() => file2.deletePage(page.addr), ReadOnlyError);
+  assertThrows(() => file2.save(), ReadOnlyError, "Cannot save");
+  assertEquals(page2.read(0, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  assertThrows(
+    () => new PagedFile(path + "-missing", { readOnly: true }),
+    Deno.errors.NotFound,
+  );
+  Deno.removeSync(path);
+});
+
+Deno.test("Vacuum move pages and truncate the file", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, { pageSize: 256 });
+  const pages = [1, 2, 3, 4].map((i) => {
+    const page = file.createPage();
+    page.write(new Uint8Array(300).fill(i));
+    return page;
+  });
+  file.save();
+  assertEquals(file.size, 9 * 256);
+  pages[0].delete();
+  pages[2].delete();
+  const addrs = new Map(pages.map((page, i) => [page.addr, i + 1]));
+  const remapped: Array<[number, number]> = [];
+  const result = file.vacuum((oldAddr, newAddr) => {
+    remapped.push([oldAddr, newAddr]);
+    addrs.set(newAddr, addrs.get(oldAddr)!);
+    addrs.delete(oldAddr);
+  });
+  assertEquals(result, { movedPages: 2, removedPages: 4 });
+  assertEquals(remapped.length, 1);
+  assertEquals(pages[3].closed, true);
+  assertEquals(pages[1].read(0, 300), new Uint8Array(300).fill(2));
+  assertEquals(file.size, 5 * 256);
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(file2.size, 5 * 256);
+  assertEquals(
+    file2.getPage(remapped[0][1]).read(0, 300),
+    new Uint8Array(300).fill(4),
+  );
+  assertEquals(file2.getRootPage().byteLength, 0);
+  assertEquals(file2.debug().filter((p) => p.includes("Empty")), []);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Truncate free pages at the end of the file", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page1 = file.createPage();
+  const page2 = file.createPage();
+  page2.write(new Uint8Array(300));
+  const page3 = file.createPage();
+  file.save();
+  assertEquals(file.truncateFreeTail(), 0);
+  page1.delete();
+  page3.delete();
+  assertEquals(file.truncateFreeTail(), 1);
+  assertEquals(file.size, 4 * 256);
+  // page 1 is still reusable
+  assertEquals(file.createPage().addr, page1.addr);
+  assertEquals(page2.byteLength, 300);
+  file.close();
+});
+
+Deno.test("Repair cut broken chains and rebuild the emptylist", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256, checksum: true });
+  file.createPage().write(new Uint8Array(600).fill(1)); // 1 -> 2 -> 3
+  file.createPage().write(new Uint8Array(300).fill(2)); // 4 -> 5
+  file.createPage().delete(); // 6 is the emptylist
+  const bytes = file.toBytes();
+  file.close();
+  // page 1 becomes a copy of page 4 and page 5 is corrupted
+  bytes.copyWithin(1 * 256, 4 * 256, 5 * 256);
+  bytes[5 * 256 + 20] ^= 0xff;
+  const file2 = PagedFile.fromBytes(bytes);
+  assertEquals(checkIntegrity(file2).valid, false);
+  assertEquals(file2.repair(), {
+    freedPages: [2, 3, 5, 6],
+    damagedPages: [1, 4],
+  });
+  assertEquals(checkIntegrity(file2).issues, []);
+  const file3 = PagedFile.fromBytes(file2.toBytes());
+  file2.close();
+  assertEquals(checkIntegrity(file3).valid, true);
+  // freed pages are reused
+  assertEquals(file3.createPage().addr, 2);
+  file3.close();
+});
+
+Deno.test("Spill dirty pages when the cache is full", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, {
+    pageSize: 256,
+    cacheSize: 4,
+    spill: true,
+  });
+  const page = file.createPage();
+  page.write(new Uint8Array(2000).fill(1));
+  // without a journal new pages go to the spill file too
+  assertEquals(Deno.statSync(path).size, 0);
+  assertEquals(existsSync(path + "-spill"), true);
+  file.save();
+  assertEquals(file.size, 10 * 256);
+  page.write(new Uint8Array(2000).fill(2));
+  // existing pages go to the spill file
+  assertEquals(existsSync(path + "-spill"), true);
+  assertEquals(page.read(0, 2000), new Uint8Array(2000).fill(2));
+  file.createPage().write(new Uint8Array(1000).fill(3));
+  file.rollback();
+  assertEquals(existsSync(path + "-spill"), false);
+  assertEquals(Deno.statSync(path).size, 10 * 256);
+  assertEquals(page.read(0, 2000), new Uint8Array(2000).fill(1));
+  page.write(new Uint8Array(2000).fill(4));
+  file.save();
+  assertEquals(existsSync(path + "-spill"), false);
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(
+    file2.getPage(page.addr).read(0, 2000),
+    new Uint8Array(2000).fill(4),
+  );
+  assertEquals(checkIntegrity(file2).valid, true);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+Deno.test("Spill new pages at the end of the file with a journal", () => {
+  const path = resolve(
+    fixtureFolder,
+    Math.floor(Math.random() * 100000) + ".db",
+  );
+  const file = new PagedFile(path, {
+    pageSize: 256,
+    cacheSize: 4,
+    spill: true,
+    journal: true,
+  });
+  const page = file.createPage();
+  page.write(new Uint8Array(2000).fill(1));
+  assertEquals(Deno.statSync(path).size > 0, true);
+  assertEquals(existsSync(path + "-spill"), false);
+  assertEquals(file.size, 0);
+  file.save();
+  assertEquals(file.size, 10 * 256);
+  file.close();
+  const file2 = new PagedFile(path);
+  assertEquals(
+    file2.getPage(page.addr).read(0, 2000),
+    new Uint8Array(2000).fill(1),
+  );
+  assertEquals(checkIntegrity(file2).valid, true);
+  file2.close();
+  Deno.removeSync(path);
+});
+
+function countingStorage(bytes: Uint8Array, reads: Array<number>) {
+  const memory = new MemoryPageStorage(bytes);
+  const storage: IPageStorage = {
+    pageCount: (pageSize) => memory.pageCount(pageSize),
+    readPage: (addr, pageSize) => {
+      reads.push(addr);
+      return memory.readPage(addr, pageSize);
+    },
+    writePage: (addr, buffer) => memory.writePage(addr, buffer),
+    truncate: (pageCount, pageSize) => memory.truncate(pageCount, pageSize),
+    sync: () => memory.sync(),
+    close: () => memory.close(),
+  };
+  return storage;
+}
+
+function createPagesFile(count: number): Uint8Array {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  for (let i = 0; i < count; i++) {
+    file.createPage().write(new Uint8Array([i]));
+  }
+  const bytes = file.toBytes();
+  file.close();
+  return bytes;
+}
+
+Deno.test("Pinned pages are not evicted", () => {
+  const reads: Array<number> = [];
+  const file = new PagedFile(countingStorage(createPagesFile(10), reads), {
+    cacheSize: 2,
+  });
+  const page = file.getPage(1).pin();
+  file.pin(1);
+  assertEquals(file.stats().pins, [{ addr: 1, count: 2 }]);
+  page.read();
+  for (let addr = 2; addr <= 10; addr++) {
+    file.getPage(addr).read();
+  }
+  reads.length = 0;
+  assertEquals(page.readByte(0), 0);
+  assertEquals(reads, []);
+  page.unpin();
+  file.unpin(1);
+  assertEquals(file.stats().pins, []);
+  assertThrows(() => file.unpin(1), Error, "page is not pinned");
+  // stats reads the root page
+  reads.length = 0;
+  file.getPage(5).read();
+  file.getPage(6).read();
+  page.read();
+  assertEquals(reads, [5, 6, 1]);
+  file.close();
+});
+
+Deno.test("Cache priorities choose evicted pages", () => {
+  const reads: Array<number> = [];
+  const file = new PagedFile(countingStorage(createPagesFile(10), reads), {
+    cacheSize: 4,
+    cachePriorities: { root: 2, entry: 0, entryTypes: { 1: 1 } },
+  });
+  const typed = file.getPage(1);
+  typed.type = 1;
+  file.getRootPage().read();
+  file.save();
+  for (let addr = 2; addr <= 10; addr++) {
+    file.getPage(addr).read();
+  }
+  reads.length = 0;
+  typed.read();
+  file.getRootPage().read();
+  assertEquals(reads, []);
+  file.close();
+});
+
+Deno.test("Stats count cache and file activity", () => {
+  const reads: Array<number> = [];
+  const file = new PagedFile(countingStorage(createPagesFile(4), reads), {
+    cacheSize: 2,
+  });
+  const page = file.getPage(1);
+  page.read();
+  page.read();
+  file.getPage(2).read();
+  file.getPage(3).read();
+  file.deletePage(4);
+  const stats = file.stats();
+  assertEquals(stats.pagesRead, reads.length);
+  // root and pages 1 to 4
+  assertEquals(stats.cacheMisses, 5);
+  assertEquals(stats.cacheHits > 0, true);
+  assertEquals(stats.evictions, stats.cacheMisses - stats.cachedPages);
+  // root and the deleted page (now the emptylist)
+  assertEquals(stats.dirtyPages, 2);
+  assertEquals(stats.freelistLength, 1);
+  assertEquals(stats.fileOpenPages, 3);
+  assertEquals(stats.openPages.size, 0);
+  const manager = file.createManager();
+  manager.getPage(1);
+  assertEquals(file.stats().fileOpenPages, 3);
+  assertEquals(file.stats().openPages.get(manager), 1);
+  assertEquals(stats.saveCount, 0);
+  file.save();
+  const saved = file.stats();
+  assertEquals(saved.pagesWritten, 2);
+  assertEquals(saved.bytesWritten, 512);
+  assertEquals(saved.dirtyPages, 0);
+  assertEquals(saved.saveCount, 1);
+  assertEquals(saved.saveTime >= 0, true);
+  file.close();
+  assertThrows(() => file.stats(), Error, "closed file");
+});
+
+Deno.test("Page content length is stored", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  assertEquals(page.read(), new Uint8Array(0));
+  page.write(new Uint8Array(10).fill(1));
+  assertEquals(page.byteLength, 10);
+  page.write(new Uint8Array([2, 2]), 300);
+  assertEquals(page.byteLength, 302);
+  assertEquals(page.read(10, 290), new Uint8Array(290));
+  assertThrows(() => page.read(300, 3), Error, "Out of range read");
+  assertThrows(() => page.readByte(302), Error, "Out of range read");
+  page.writeAndCleanup(new Uint8Array([3, 3, 3]), 5);
+  assertEquals(page.byteLength, 8);
+  assertEquals(page.read(), new Uint8Array([1, 1, 1, 1, 1, 3, 3, 3]));
+  // the Data page is freed
+  assertEquals(file.stats().freelistLength, 1);
+  page.cleanupAfter(6);
+  assertEquals(page.read(), new Uint8Array([1, 1, 1, 1, 1, 3]));
+  page.truncate(2);
+  assertThrows(() => page.truncate(3), Error, "content is 2 bytes");
+  // removed content is not visible when extending
+  page.resize(400);
+  assertEquals(page.byteLength, 400);
+  assertEquals(page.read(0, 4), new Uint8Array([1, 1, 0, 0]));
+  page.select(398).write(new Uint8Array([4, 4, 4]));
+  assertEquals(page.byteLength, 401);
+  const bytes = file.toBytes();
+  file.close();
+  const file2 = PagedFile.fromBytes(bytes);
+  assertEquals(file2.getPage(page.addr).byteLength, 401);
+  file2.close();
+});
+
+Deno.test("Legacy file content is the whole chain", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256, addressBits: 16 });
+  const page = file.createPage();
+  page.write(new Uint8Array(10).fill(1));
+  // 256 - type, prevPage and nextPage
+  assertEquals(page.byteLength, 251);
+  page.resize(300);
+  assertEquals(page.byteLength, 502);
+  page.resize(10);
+  assertEquals(page.byteLength, 251);
+  assertEquals(page.read(5, 10), new Uint8Array(10).fill(1, 0, 5));
+  file.close();
+});
+
+Deno.test("Chain index is reset on rollback", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  page.write(new Uint8Array(1000).fill(1));
+  const savepoint = file.savepoint();
+  page.writeAndCleanup(new Uint8Array(10).fill(2));
+  page.write(new Uint8Array(600).fill(3), 10);
+  assertEquals(page.readByte(609), 3);
+  file.rollbackTo(savepoint);
+  assertEquals(page.byteLength, 1000);
+  assertEquals(page.readByte(999), 1);
+  assertEquals(page.read(600, 10), new Uint8Array(10).fill(1));
+  file.close();
+});
+
+Deno.test("Append starts from the last page", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  const expected: Array<number> = [];
+  for (let i = 0; i < 50; i++) {
+    const chunk = new Uint8Array(i * 3).fill(i);
+    page.append(chunk);
+    expected.push(...chunk);
+  }
+  assertEquals(page.read(), new Uint8Array(expected));
+  page.truncate(1000);
+  page.append(new Uint8Array([1, 2]));
+  assertEquals(page.byteLength, 1002);
+  assertEquals(
+    page.read(998, 4),
+    new Uint8Array([...expected.slice(998, 1000), 1, 2]),
+  );
+  file.getRootPage().append(new Uint8Array(300).fill(7));
+  file.getRootPage().append(new Uint8Array([8]));
+  assertEquals(file.getRootPage().read(299, 2), new Uint8Array([7, 8]));
+  const bytes = file.toBytes();
+  file.close();
+  const reads: Array<number> = [];
+  const file2 = new PagedFile(countingStorage(bytes, reads));
+  const page2 = file2.getPage(page.addr);
+  reads.length = 0;
+  page2.append(new Uint8Array([3]));
+  // the entry is already loaded, only its last page is read
+  assertEquals(reads.length, 1);
+  assertEquals(page2.read(1000, 3), new Uint8Array([1, 2, 3]));
+  file2.close();
+  const legacy = new PagedFile(MEMORY, { pageSize: 256, addressBits: 16 });
+  assertThrows(
+    () => legacy.createPage().append(new Uint8Array([1])),
+    Error,
+    "does not store the content length",
+  );
+  legacy.close();
+});
+
+Deno.test("Splice inserts and removes content inside the chain", () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const page = file.createPage();
+  const data = new Uint8Array(2000).map((_v, i) => i % 251);
+  page.write(data);
+  const dataPages = checkIntegrity(file).dataPages;
+  // a small insert splits one page instead of rewriting the tail
+  assertEquals(page.splice(500, 0, new Uint8Array(10).fill(1)).byteLength, 0);
+  assertEquals(page.byteLength, 2010);
+  assertEquals(checkIntegrity(file).dataPages, dataPages + 1);
+  assertEquals(
+    page.read(495, 20),
+    new Uint8Array([
+      ...data.slice(495, 500),
+      ...new Array(10).fill(1),
+      ...data.slice(500, 505),
+    ]),
+  );
+  assertEquals(page.read(510), data.slice(500));
+  // removing it merges the pages back
+  assertEquals(page.splice(500, 10), new Uint8Array(10).fill(1));
+  assertEquals(page.read(), data);
+  assertEquals(checkIntegrity(file).dataPages, dataPages);
+  // remove pages and replace content across pages
+  assertEquals(
+    page.splice(100, 1000, new Uint8Array([9, 9])),
+    data.slice(100, 1100),
+  );
+  assertEquals(
+    page.read(),
+    new Uint8Array([...data.slice(0, 100), 9, 9, ...data.slice(1100)]),
+  );
+  assertEquals(checkIntegrity(file).issues, []);
+  // deleteCount stops at the end of the content
+  assertEquals(page.splice(1000, 100), new Uint8Array([...data.slice(1998)]));
+  assertEquals(page.byteLength, 1000);
+  assertThrows(
+    () => page.splice(1001, 0),
+    Error,
+    "content is 1000 bytes",
+  );
+  file.close();
+  // older formats shift the content of the whole chain
+  const legacy = new PagedFile(MEMORY, { pageSize: 256, addressBits: 16 });
+  const legacyPage = legacy.createPage();
+  legacyPage.write(new Uint8Array([1, 2, 3, 4]));
+  assertEquals(
+    legacyPage.splice(1, 2, new Uint8Array([5])),
+    new Uint8Array([2, 3]),
+  );
+  assertEquals(legacyPage.read(0, 5), new Uint8Array([1, 5, 4, 0, 0]));
+  legacy.close();
+});
+
+Deno.test("Stream page content", async () => {
+  const file = new PagedFile(MEMORY, { pageSize: 256 });
+  const data = new Uint8Array(1000).map((_v, i) => i % 256);
+  const chunks = [data.slice(0, 100), data.slice(100, 700), data.slice(700)];
+  const page = await file.importStream(
+    new ReadableStream({
+      pull: (controller) => {
+        const chunk = chunks.shift();
+        chunk ? controller.enqueue(chunk) : controller.close();
+      },
+    }),
+    2,
+  );
+  assertEquals(page.type, 2);
+  assertEquals(page.read(), data);
+  // one chunk per page of the chain
+  const read: Array<Uint8Array> = [];
+  for await (const chunk of page.readable(10)) {
+    read.push(chunk);
+  }
+  assertEquals(read.length, checkIntegrity(file).dataPages + 1);
+  assertEquals(
+    new Uint8Array(read.flatMap((chunk) => [...chunk])),
+    data.slice(10),
+  );
+  // content ends after the last written byte
+  const writer = page.writable(500).getWriter();
+  await writer.write(new Uint8Array([1, 2]));
+  await writer.write(new Uint8Array([3]));
+  await writer.close();
+  assertEquals(page.byteLength, 503);
+  assertEquals(page.read(499), new Uint8Array([data[499], 1, 2, 3]));
+  // failed import does not leave a page
+  const pageCount = checkIntegrity(file).entryPages;
+  await assertRejects(
+    () =>
+      file.importStream(
+        new ReadableStream({
+          start: (controller) => {
+            controller.enqueue(new Uint8Array(300));
+            controller.error(new Error(`Upload failed`));
+          },
+        }),
+      ),
+    Error,
+    "Upload failed",
+  );
+  assertEquals(checkIntegrity(file).entryPages, pageCount);
+  assertEquals(checkIntegrity(file).issues, []);
   file.close();
 });
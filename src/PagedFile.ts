@@ -1,17 +1,28 @@
-import { LeastRecentlyUsedMap as LRUMap } from "./LeastRecentlyUsedMap.ts";
+import {
+  CacheMap,
+  CachePolicyFactory,
+  CachePolicyName,
+  createCachePolicy,
+} from "./CachePolicy.ts";
+import { realPath } from "./FileLock.ts";
+import { Journal, JournalPage } from "./Journal.ts";
 import {
   DataPageBlock,
   EmptylistPageBlock,
   EmptyPageBlock,
   EntryPageBlock,
   PageBlock,
+  pageBlockFromBuffer,
   PageBlockType,
   RootPageBlock,
+  verifyPageChecksum,
 } from "./PageBlock.ts";
 import {
   entryPageTypeToPageBlockType,
   Page,
   PAGE_INTERNAL_CLOSE,
+  PAGE_INTERNAL_RESET,
+  pageBlockTypeToEntryPageType,
   PageParentRef,
 } from "./Page.ts";
 import {
@@ -19,26 +30,223 @@ import {
   PageManager,
   PageManagerParentRef,
 } from "./PageManager.ts";
-
-const VALID_PAGE_SIZE = [8, 9, 10, 11, 12, 13, 14, 15].map((v) =>
-  Math.pow(2, v)
-);
+import {
+  AddressBits,
+  createNewPageFormat,
+  CURRENT_FORMAT_VERSION,
+  PageFormat,
+  readFormatHeader,
+  readPageFormat,
+  VALID_PAGE_SIZE,
+} from "./PageFormat.ts";
+import {
+  FileFormatError,
+  PageCorruptionError,
+  ReadOnlyError,
+} from "./errors.ts";
+import {
+  FilePageStorage,
+  IPageStorage,
+  MemoryPageStorage,
+  SyncMode,
+} from "./PageStorage.ts";
 
 export const MEMORY = Symbol.for("PAGED_FILE_MEMORY");
 
+export type FormatUpgradeContext = {
+  // version of the file before the upgrade
+  readonly version: number;
+  readonly pageSize: number;
+  readonly pageCount: number;
+  readPage(addr: number): Uint8Array;
+  writePage(addr: number, buffer: Uint8Array): void;
+};
+
+/**
+ * Migrate a file in place from a version to a more recent one
+ * The upgrade must update the version in the root page format header
+ */
+export type FormatUpgrade = (context: FormatUpgradeContext) => void;
+
+// Upgrade functions by version they migrate from
+export type FormatUpgrades = { [version: number]: FormatUpgrade };
+
 export type PagedFileOptions = {
+  // Defaults to the page size stored in existing files, 4096 for new ones
   pageSize?: number;
-  cacheSize?: number;
+  // Number of cached pages or a budget in bytes (default 8MB)
+  cacheSize?: number | { bytes: number };
+  // Order in which cached pages are evicted (default "lru")
+  cachePolicy?: CachePolicyName | CachePolicyFactory;
+  // Pages with a higher priority are evicted after other pages
+  cachePriorities?: CachePriorities;
   create?: boolean;
+  // Size of page addresses, only used when creating a new file
+  addressBits?: AddressBits;
+  // Write changes to a journal before applying them so save is atomic
+  // (only for files opened by path)
+  journal?: boolean;
+  // Store a checksum in each page (only used when creating a new file)
+  checksum?: boolean;
+  // Applied on open to files using an older format version
+  upgrades?: FormatUpgrades;
+  // Sync after save: "none" (default) leaves it to the OS,
+  // "data" uses fdatasync, "full" uses fsync
+  durability?: Durability;
+  // Open without write access, changes are not allowed
+  readOnly?: boolean;
+  // Take an advisory lock on the file (only for files opened by path),
+  // read-only files take a shared lock. Other processes wait for the lock,
+  // opening the file again in this process throws a FileLockedError
+  lock?: boolean;
+  // When dirty pages exceed cacheSize, write them out of memory instead of
+  // keeping them until save: pages go to a spill file (`<path>-spill`,
+  // a temporary file for MEMORY and custom storages), with a journal new
+  // pages go to the end of the file (the saved pages don't reference them yet)
+  spill?: boolean;
+};
+
+export type Savepoint = { readonly id: number };
+
+// Cache priority by kind of page (default 0)
+export type CachePriorities = {
+  root?: number;
+  emptylist?: number;
+  data?: number;
+  entry?: number;
+  // entry pages by page type, override `entry`
+  entryTypes?: { [pageType: number]: number };
+};
+
+export type PagedFileStats = {
+  // pages in the block cache
+  cachedPages: number;
+  // page blocks found in the cache / loaded from the file
+  cacheHits: number;
+  cacheMisses: number;
+  // pages removed from the cache (including spilled pages)
+  evictions: number;
+  // pages read from / written to the file (and the spill file)
+  pagesRead: number;
+  pagesWritten: number;
+  bytesRead: number;
+  bytesWritten: number;
+  // unsaved pages (in the cache or spilled)
+  dirtyPages: number;
+  // open Page objects of the file itself (getPage, createPage...)
+  fileOpenPages: number;
+  // open Page objects by manager created with createManager
+  openPages: Map<PageManager, number>;
+  // number of free pages in the emptylist
+  freelistLength: number;
+  saveCount: number;
+  // total time spent saving in ms
+  saveTime: number;
+  // pin count of pinned pages (by address)
+  pins: Array<{ addr: number; count: number }>;
+};
+
+export type Durability = "none" | SyncMode;
+
+// Called by vacuum for each entry page moved to a new address
+export type VacuumRemap = (oldAddr: number, newAddr: number) => void;
+
+export type VacuumResult = {
+  movedPages: number;
+  // number of pages removed from the end of the file
+  removedPages: number;
+};
+
+export type RepairResult = {
+  // pages added to the emptylist (unused, orphan or corrupted pages)
+  freedPages: Array<number>;
+  // root (0) and entry pages whose chain was cut (or length / last page fixed)
+  damagedPages: Array<number>;
+};
+
+export const PAGED_FILE_INTERNAL = Symbol("PAGED_FILE_INTERNAL");
+
+// Used by AsyncPagedFile and checkIntegrity to access the cache and storage
+export type PagedFileInternalRef = {
+  getPageCount: PagedFile["getPageCount"];
+  readCurrentPage: PagedFile["readCurrentPage"];
+  getStorage: PagedFile["getStorage"];
+  getCachedPageBlock: PagedFile["getCachedPageBlock"];
+  prefetchPageBuffer: PagedFile["prefetchPageBuffer"];
+  clearPrefetched: PagedFile["clearPrefetched"];
+  prepareSave: PagedFile["prepareSave"];
+  finishSave: PagedFile["finishSave"];
+};
+
+// A page to write on save, read is called when the page is written
+export type SavePage = {
+  addr: number;
+  read: () => Uint8Array;
+  onSaved: () => void;
+};
+
+type SaveState = {
+  storage: IPageStorage;
+  journal: Journal | null;
+  // root and emptylist pages are written after other pages
+  dataPages: Array<SavePage>;
+  metaPages: Array<SavePage>;
+  // some pages were written to the file by spill before save
+  hasDirectPages: boolean;
+  syncMode: SyncMode | null;
+};
+
+// slot of spilled pages written at their address in the file
+const DIRECT_SLOT = -1;
+
+type SpilledPage = { type: number; slot: number };
+
+type SavepointState = {
+  id: number;
+  memoryPageCount: number;
+  // blocks as they were when the savepoint was created, copied before
+  // their first change (null when the block was clean or not in memory)
+  snapshots: Map<number, Uint8Array | null>;
 };
 
 export class PagedFile implements IPageManager {
-  public readonly path: string | typeof MEMORY;
+  // Open a MEMORY file from bytes returned by toBytes()
+  public static fromBytes(
+    bytes: Uint8Array,
+    options: PagedFileOptions = {},
+  ): PagedFile {
+    return new PagedFile(new MemoryPageStorage(bytes), options);
+  }
+
+  // MEMORY for memory storages, null for custom storages
+  public readonly path: string | typeof MEMORY | null;
   public readonly pageSize: number;
   public readonly cacheSize: number;
+  public readonly format: PageFormat;
+  public readonly readOnly: boolean;
+  public readonly durability: Durability;
+  public readonly spill: boolean;
+  public readonly [PAGED_FILE_INTERNAL]: PagedFileInternalRef;
 
-  private readonly file: Deno.File | null;
-  private readonly blockCache = new LRUMap<number, PageBlock>();
+  private readonly storage: IPageStorage;
+  private readonly journal: Journal | null;
+  private readonly blockCache: CacheMap<PageBlock>;
+  private readonly cachePriorities: CachePriorities | null;
+  // pinned pages are never evicted from blockCache
+  private readonly pinCounts = new Map<number, number>();
+  private readonly counters = {
+    cacheHits: 0,
+    cacheMisses: 0,
+    evictions: 0,
+    pagesRead: 0,
+    pagesWritten: 0,
+    bytesRead: 0,
+    bytesWritten: 0,
+    saveCount: 0,
+    saveTime: 0,
+  };
+  // start of the current save (performance.now)
+  private saveStart: number | null = null;
   private readonly pageCache = new Map<
     number,
     { page: Page; managers: Set<PageManager> }
@@ -47,37 +255,113 @@ export class PagedFile implements IPageManager {
   private readonly pageManagerParentRef: PageManagerParentRef;
   private readonly pageParentRef: PageParentRef;
 
+  private readonly savepoints: Array<SavepointState> = [];
+  private readonly onBeforePageBlockWrite = (page: PageBlock) => {
+    this.snapshotPageBlock(page.addr, page);
+  };
+  // buffers read ahead of time (by AsyncPagedFile)
+  private readonly prefetched = new Map<number, Uint8Array>();
+  // dirty pages written out of the cache (spill option)
+  private readonly spilledPages = new Map<number, SpilledPage>();
+  private spillStorage: FilePageStorage | null = null;
+  private spillSlotCount = 0;
+
   private isClosed = false;
+  private nextSavepointId = 1;
   private filePageCount: number; // Number of pages in the document (written on file)
   private memoryPageCount: number; // Number of pages in the document (in cache)
 
   constructor(
-    path: string | typeof MEMORY,
+    source: string | typeof MEMORY | IPageStorage,
     {
-      pageSize = 4096,
-      cacheSize = Math.round((8 * 1024 * 1024) / pageSize),
+      pageSize: pageSizeOption,
+      cacheSize,
+      cachePolicy = "lru",
+      cachePriorities,
       create = true,
+      addressBits = 32,
+      journal = false,
+      checksum = false,
+      upgrades = {},
+      readOnly = false,
+      durability = "none",
+      lock = false,
+      spill = false,
     }: PagedFileOptions = {},
   ) {
-    if (VALID_PAGE_SIZE.includes(pageSize) === false) {
-      throw new Error(`Invalid pageSize.`);
-    }
-    this.pageSize = pageSize;
-    this.cacheSize = cacheSize;
-    this.path = path;
-    this.file = path === MEMORY ? null : Deno.openSync(path, {
-      read: true,
-      write: true,
-      create: create,
-    });
-    const fileSize = this.file ? this.file.statSync().size : 0;
-    const pageCount = fileSize / this.pageSize;
-    if (pageCount !== Math.floor(pageCount)) {
-      throw new Error("Invalid size page count is not en integer");
+    this.readOnly = readOnly;
+    this.durability = durability;
+    this.spill = spill;
+    this.cachePriorities = cachePriorities ?? null;
+    this.path = typeof source === "string"
+      ? source
+      : source instanceof FilePageStorage
+      ? source.path
+      : source === MEMORY || source instanceof MemoryPageStorage
+      ? MEMORY
+      : null;
+    const path = this.path;
+    if (journal && typeof path !== "string") {
+      // the journal is a file next to the paged file
+      throw new Error(`Cannot use a journal without a file path`);
+    }
+    if (lock && typeof source !== "string") {
+      // the storage is opened (and locked) by the caller
+      throw new Error(`Cannot lock a file without a file path`);
+    }
+    // the lock is taken on open so the file is not recovered concurrently
+    this.storage = source === MEMORY
+      ? new MemoryPageStorage()
+      : typeof source === "string"
+      ? new FilePageStorage(source, {
+        create,
+        readOnly,
+        lock: lock ? (readOnly ? "shared" : "exclusive") : undefined,
+      })
+      : source;
+    try {
+      // existing files use the page size stored in the root page
+      const pageSize = pageSizeOption ?? this.detectPageSize() ?? 4096;
+      if (VALID_PAGE_SIZE.includes(pageSize) === false) {
+        throw new Error(`Invalid pageSize.`);
+      }
+      this.pageSize = pageSize;
+      this.cacheSize = typeof cacheSize === "number" ? cacheSize : Math.max(
+        1,
+        Math.floor((cacheSize?.bytes ?? 8 * 1024 * 1024) / pageSize),
+      );
+      this.blockCache = new CacheMap(
+        createCachePolicy(cachePolicy, this.cacheSize),
+      );
+      if (typeof path === "string") {
+        // a journal left by an interrupted save is replayed or discarded
+        const pending = new Journal(path, pageSize);
+        if (readOnly && pending.exists && pending.readCommitCount() !== null) {
+          throw new ReadOnlyError(`recover journal`);
+        }
+        if (readOnly === false) {
+          pending.recover(this.storage);
+        }
+      }
+      this.journal = journal && readOnly === false && typeof path === "string"
+        ? new Journal(path, pageSize)
+        : null;
+      // older formats are read as is in read-only mode
+      if (readOnly === false && this.readFilePageCount() > 0) {
+        this.upgradeFormat(upgrades);
+      }
+      const pageCount = this.readFilePageCount();
+      this.filePageCount = pageCount;
+      // memory page count always include root
+      this.memoryPageCount = pageCount === 0 ? 1 : pageCount;
+      // existing files keep the format they were created with
+      this.format = pageCount === 0
+        ? createNewPageFormat(this.pageSize, addressBits, checksum)
+        : readPageFormat(this.readPageBuffer(0), this.pageSize);
+    } catch (error) {
+      this.storage.close();
+      throw error;
     }
-    this.filePageCount = pageCount;
-    // memory page count always include root
-    this.memoryPageCount = pageCount === 0 ? 1 : pageCount;
     this.mainManager = this.createManager();
     this.pageManagerParentRef = {
       deletePage: this.deletePage.bind(this),
@@ -87,6 +371,10 @@ export class PagedFile implements IPageManager {
       getOpenPagesForManager: this.getOpenPagesForManager.bind(this),
       getPageForManager: this.getPageForManager.bind(this),
       getRootPageForManager: this.getRootPageForManager.bind(this),
+      transactionForManager: this.transactionForManager.bind(this),
+      savepoint: this.savepoint.bind(this),
+      rollbackTo: this.rollbackTo.bind(this),
+      release: this.release.bind(this),
     };
     this.pageParentRef = {
       getEmptyPageAddr: this.getEmptyPageAddr.bind(this),
@@ -96,6 +384,19 @@ export class PagedFile implements IPageManager {
       deleteDataPageBlock: this.deleteDataPageBlock.bind(this),
       getInternalRootOrEntry: this.getInternalRootOrEntry.bind(this),
       checkCache: this.checkCache.bind(this),
+      checkWritable: this.checkWritable.bind(this),
+      pin: this.pin.bind(this),
+      unpin: this.unpin.bind(this),
+    };
+    this[PAGED_FILE_INTERNAL] = {
+      getPageCount: this.getPageCount.bind(this),
+      readCurrentPage: this.readCurrentPage.bind(this),
+      getStorage: this.getStorage.bind(this),
+      getCachedPageBlock: this.getCachedPageBlock.bind(this),
+      prefetchPageBuffer: this.prefetchPageBuffer.bind(this),
+      clearPrefetched: this.clearPrefetched.bind(this),
+      prepareSave: this.prepareSave.bind(this),
+      finishSave: this.finishSave.bind(this),
     };
   }
 
@@ -129,6 +430,24 @@ export class PagedFile implements IPageManager {
     return this.createPageForManager(this.mainManager, pageType);
   }
 
+  // create a page with the content of the stream
+  // the page is deleted if the stream fails
+  public async importStream(
+    stream: ReadableStream<Uint8Array>,
+    pageType: number | null = null,
+  ): Promise<Page> {
+    const page = this.createPage(pageType);
+    try {
+      await stream.pipeTo(page.writable());
+    } catch (error) {
+      if (page.closed === false && this.isClosed === false) {
+        page.delete();
+      }
+      throw error;
+    }
+    return page;
+  }
+
   public deletePage(
     addr: number,
     pageType: number | null = null,
@@ -136,6 +455,7 @@ export class PagedFile implements IPageManager {
     if (this.isClosed) {
       throw new Error(`Cannot delete page on closed file`);
     }
+    this.checkWritable(`delete page`);
     if (addr === 0) {
       return;
     }
@@ -174,31 +494,890 @@ export class PagedFile implements IPageManager {
   }
 
   public save() {
+    const { storage, journal, dataPages, metaPages, hasDirectPages, syncMode } =
+      this.prepareSave();
+    if (dataPages.length + metaPages.length === 0) {
+      this.finishSave();
+      return;
+    }
+    if (journal) {
+      // the journal does not contain pages written by spill
+      if (hasDirectPages) {
+        storage.sync(syncMode ?? "full");
+      }
+      journal.commit(toJournalPages([...dataPages, ...metaPages]));
+    }
+    for (const page of dataPages) {
+      storage.writePage(page.addr, page.read());
+      page.onSaved();
+    }
+    // data must be on disk before root and emptylist reference it
+    if (journal === null && syncMode && metaPages.length > 0) {
+      storage.sync(syncMode);
+    }
+    for (const page of metaPages) {
+      storage.writePage(page.addr, page.read());
+      page.onSaved();
+    }
+    if (journal) {
+      // changes are on the file, the journal is no longer needed
+      storage.sync(syncMode ?? "full");
+      journal.clear();
+    } else if (syncMode) {
+      storage.sync(syncMode);
+    }
+    this.finishSave();
+  }
+
+  // Keep the page in the cache until unpin is called (pins are counted)
+  public pin(addr: number) {
     if (this.isClosed) {
-      throw new Error(`Cannot write closed file`);
+      throw new Error(`Cannot pin page of closed file`);
+    }
+    if (addr < 0 || addr >= this.memoryPageCount) {
+      throw new Error(`Cannot pin page ${addr}: invalid address`);
     }
-    const file = this.file;
-    if (file === null) {
-      throw new Error(`Cannot save MEMORY file`);
+    this.pinCounts.set(addr, (this.pinCounts.get(addr) ?? 0) + 1);
+  }
+
+  public unpin(addr: number) {
+    const count = this.pinCounts.get(addr);
+    if (count === undefined) {
+      throw new Error(`Cannot unpin page ${addr}: page is not pinned`);
     }
-    this.blockCache.traverseFromOldest((page) => {
-      if (page.addr >= this.filePageCount) {
-        this.filePageCount = page.addr + 1;
+    if (count === 1) {
+      this.pinCounts.delete(addr);
+    } else {
+      this.pinCounts.set(addr, count - 1);
+    }
+    this.checkCache();
+  }
+
+  public stats(): PagedFileStats {
+    if (this.isClosed) {
+      throw new Error(`Cannot read stats of closed file`);
+    }
+    // read first: reading emptylist pages updates counters
+    const freelistLength = this.getFreelistLength();
+    let dirtyPages = 0;
+    this.blockCache.traverse((page) => {
+      if (page.dirty) {
+        dirtyPages++;
       }
-      page.writeTo(file);
     });
+    for (const addr of this.spilledPages.keys()) {
+      if (this.blockCache.peek(addr) === undefined) {
+        dirtyPages++;
+      }
+    }
+    let fileOpenPages = 0;
+    const openPages = new Map<PageManager, number>();
+    for (const { managers } of this.pageCache.values()) {
+      for (const manager of managers) {
+        if (manager === this.mainManager) {
+          fileOpenPages++;
+        } else {
+          openPages.set(manager, (openPages.get(manager) ?? 0) + 1);
+        }
+      }
+    }
+    const counters = this.counters;
+    return {
+      cachedPages: this.blockCache.size,
+      cacheHits: counters.cacheHits,
+      cacheMisses: counters.cacheMisses,
+      evictions: counters.evictions,
+      pagesRead: counters.pagesRead,
+      pagesWritten: counters.pagesWritten,
+      bytesRead: counters.bytesRead,
+      bytesWritten: counters.bytesWritten,
+      dirtyPages,
+      fileOpenPages,
+      openPages,
+      freelistLength,
+      saveCount: counters.saveCount,
+      saveTime: counters.saveTime,
+      pins: Array.from(this.pinCounts)
+        .map(([addr, count]) => ({ addr, count }))
+        .sort((a, b) => a.addr - b.addr),
+    };
+  }
+
+  // Flush saved pages to disk (useful with durability "none")
+  public sync() {
+    if (this.isClosed) {
+      throw new Error(`Cannot sync closed file`);
+    }
+    this.storage.sync(this.durability === "data" ? "data" : "full");
+  }
+
+  /**
+   * Move pages into free pages then truncate the file.
+   * Pending changes are saved first.
+   * Open pages that moved are closed, onRemap is called for each moved entry page
+   * (before the final save) so addresses stored in pages can be updated.
+   */
+  public vacuum(onRemap?: VacuumRemap): VacuumResult {
+    this.checkCanShrink(`vacuum`);
+    this.save();
+    const initialPageCount = this.memoryPageCount;
+    const liveTypes = new Map<number, number>();
+    const freeAddrs: Array<number> = [];
+    for (let addr = 0; addr < initialPageCount; addr++) {
+      const type = this.getCurrentPageBlockType(addr);
+      if (
+        type === null || type === PageBlockType.Empty ||
+        type === PageBlockType.Emptylist
+      ) {
+        freeAddrs.push(addr);
+      } else {
+        liveTypes.set(addr, type);
+      }
+    }
+    const liveCount = liveTypes.size;
+    // live pages after liveCount fill free pages before liveCount
+    const slots = freeAddrs.filter((addr) => addr < liveCount);
+    const moved = new Map<number, number>();
+    for (let addr = liveCount; addr < initialPageCount; addr++) {
+      const type = liveTypes.get(addr);
+      if (type !== undefined) {
+        const newAddr = slots[moved.size];
+        moved.set(addr, newAddr);
+        liveTypes.delete(addr);
+        liveTypes.set(newAddr, type);
+      }
+    }
+    // every free page is after liveCount: the emptylist is dropped
+    this.getRootPageBlock().emptylistAddr = 0;
+    for (const [addr, newAddr] of moved) {
+      this.movePageBlock(addr, newAddr);
+    }
+    for (const [addr, type] of liveTypes) {
+      this.remapPageBlockRefs(addr, type, moved);
+      this.checkCache();
+    }
+    for (const addr of moved.keys()) {
+      const cached = this.pageCache.get(addr);
+      if (cached) {
+        this.pageCache.delete(addr);
+        cached.page[PAGE_INTERNAL_CLOSE]();
+      }
+    }
+    // chains of other open pages reference moved pages
+    this.closeInvalidPages();
+    this.shrink(liveCount);
+    if (onRemap) {
+      for (const [addr, newAddr] of moved) {
+        if (liveTypes.get(newAddr)! >= PageBlockType.Entry) {
+          onRemap(addr, newAddr);
+        }
+      }
+    }
+    this.saveAndTruncate();
+    return {
+      movedPages: moved.size,
+      removedPages: initialPageCount - this.memoryPageCount,
+    };
+  }
+
+  /**
+   * Remove free pages at the end of the file (without moving pages).
+   * Pending changes are saved first.
+   * Return the number of pages removed.
+   */
+  public truncateFreeTail(): number {
+    this.checkCanShrink(`truncate`);
+    this.save();
+    const freeAddrs = this.getFreeAddrs();
+    let pageCount = this.memoryPageCount;
+    while (pageCount > 1 && freeAddrs.has(pageCount - 1)) {
+      pageCount--;
+    }
+    const removed = this.memoryPageCount - pageCount;
+    if (removed === 0) {
+      return 0;
+    }
+    this.rebuildEmptylist(
+      Array.from(freeAddrs).filter((addr) => addr < pageCount),
+    );
+    this.shrink(pageCount);
+    this.saveAndTruncate();
+    return removed;
+  }
+
+  /**
+   * Rebuild the emptylist from a scan of all pages.
+   * Chains are cut at the first invalid link (outside of the file, not a Data page,
+   * corrupted or already used by another chain) and pages that are not used
+   * by the root or an entry page are freed.
+   * Pending changes are saved first, the repaired file is saved.
+   */
+  public repair(): RepairResult {
+    this.checkCanShrink(`repair`);
+    this.save();
+    const pageCount = this.memoryPageCount;
+    const types = new Map<number, number>();
+    for (let addr = 1; addr < pageCount; addr++) {
+      const type = this.readValidPageBlockType(addr);
+      if (type !== null && type !== PageBlockType.Root) {
+        types.set(addr, type);
+      }
+    }
+    const heads = [0];
+    for (const [addr, type] of types) {
+      if (type >= PageBlockType.Entry) {
+        heads.push(addr);
+      }
+    }
+    const used = new Set<number>(heads);
+    const damagedPages: Array<number> = [];
+    for (const head of heads) {
+      const headBlock = this.getInternalRootOrEntry(
+        head,
+        head === 0 ? null : types.get(head)!,
+      );
+      let block: RootPageBlock | EntryPageBlock | DataPageBlock = headBlock;
+      let damaged = false;
+      // used bytes of a page cannot exceed its capacity
+      const readUsedLength = () => {
+        const capacity = block.contentFacade.byteLength;
+        if (block.usedLength > capacity) {
+          block.setUsedLength(capacity);
+          damaged = true;
+        }
+        return block.usedLength;
+      };
+      let usedLength = readUsedLength();
+      while (block.nextPage !== 0) {
+        const next = block.nextPage;
+        if (types.get(next) !== PageBlockType.Data || used.has(next)) {
+          block.nextPage = 0;
+          damaged = true;
+          break;
+        }
+        used.add(next);
+        const nextBlock = this.getDataPageBlock(next, true);
+        if (nextBlock.prevPage !== 0 && nextBlock.prevPage !== block.addr) {
+          nextBlock.prevPage = block.addr;
+        }
+        block = nextBlock;
+        usedLength += readUsedLength();
+      }
+      // content of a cut chain ends with its last page
+      const contentLength = headBlock.contentLength;
+      if (contentLength !== null && contentLength !== usedLength) {
+        headBlock.setContentLength(usedLength);
+        damaged = true;
+      }
+      const lastPage = block === headBlock ? 0 : block.addr;
+      if (headBlock.lastPage !== null && headBlock.lastPage !== lastPage) {
+        headBlock.setLastPage(lastPage);
+        damaged = true;
+      }
+      if (damaged) {
+        damagedPages.push(head);
+      }
+    }
+    const freedPages: Array<number> = [];
+    for (let addr = 1; addr < pageCount; addr++) {
+      if (used.has(addr)) {
+        continue;
+      }
+      freedPages.push(addr);
+      if (types.get(addr) !== PageBlockType.Empty) {
+        const cached = this.blockCache.get(addr);
+        if (cached) {
+          cached.close();
+        }
+        this.blockCache.set(addr, new EmptyPageBlock(this.format, addr));
+      }
+    }
+    // the previous emptylist pages are freed above
+    this.getRootPageBlock().emptylistAddr = 0;
+    this.rebuildEmptylist(freedPages.slice());
+    this.closeInvalidPages();
     this.checkCache();
+    this.save();
+    return { freedPages, damagedPages };
   }
 
-  public close() {
-    if (this.file) {
-      this.file.close();
+  // Content of the file including unsaved changes
+  public toBytes(): Uint8Array {
+    const bytes = new Uint8Array(this.memoryPageCount * this.pageSize);
+    this.forEachCurrentPage((addr, buffer) => {
+      bytes.set(buffer, addr * this.pageSize);
+    });
+    return bytes;
+  }
+
+  /**
+   * Write the content of the file (including unsaved changes) to a new file.
+   * Existing content at path is replaced, this file is not affected.
+   * The target is locked (exclusive) while it is written.
+   */
+  public saveAs(path: string) {
+    if (
+      typeof this.path === "string" && realPath(path) === realPath(this.path)
+    ) {
+      throw new Error(`Cannot saveAs to the file itself, use save instead`);
+    }
+    // lock before truncating, the target might be open by another file
+    const storage = new FilePageStorage(path, { lock: "exclusive" });
+    try {
+      storage.truncate(0, this.pageSize);
+      this.forEachCurrentPage((addr, buffer) => {
+        storage.writePage(addr, buffer);
+      });
+      storage.sync();
+    } finally {
+      storage.close();
+    }
+  }
+
+  /**
+   * Discard all unsaved changes.
+   * Open pages that do not exist on the file anymore are closed.
+   */
+  public rollback() {
+    if (this.isClosed) {
+      throw new Error(`Cannot rollback closed file`);
+    }
+    if (this.savepoints.length > 0) {
+      throw new Error(`Cannot rollback with active savepoints`);
+    }
+    this.discardDirtyBlocks();
+    this.clearSpill(false);
+    // memory page count always include root
+    this.memoryPageCount = this.filePageCount === 0 ? 1 : this.filePageCount;
+    this.closeInvalidPages();
+  }
+
+  /**
+   * Run fn in a savepoint, changes made by fn are reverted if it throws.
+   * fn must be synchronous and must not return a promise: async functions
+   * are rejected before they run, a returned promise is rolled back.
+   */
+  public transaction<T>(fn: (file: this) => T): T {
+    return this.transactionForManager(this, fn);
+  }
+
+  public savepoint(): Savepoint {
+    if (this.isClosed) {
+      throw new Error(`Cannot create savepoint on closed file`);
     }
+    const state: SavepointState = {
+      id: this.nextSavepointId++,
+      memoryPageCount: this.memoryPageCount,
+      snapshots: new Map(),
+    };
+    this.savepoints.push(state);
+    return { id: state.id };
+  }
+
+  // Revert changes made after the savepoint, the savepoint stays active
+  public rollbackTo(savepoint: Savepoint) {
+    if (this.isClosed) {
+      throw new Error(`Cannot rollback closed file`);
+    }
+    const index = this.getSavepointIndex(savepoint);
+    const state = this.savepoints[index];
+    // savepoints created after this one are released, the oldest snapshot
+    // of a block is restored last
+    const released = this.savepoints.splice(index + 1).reverse();
+    for (const { snapshots } of [...released, state]) {
+      for (const [addr, buffer] of snapshots) {
+        const cached = this.blockCache.get(addr);
+        if (cached) {
+          cached.close();
+        }
+        if (buffer === null) {
+          this.blockCache.delete(addr);
+          continue;
+        }
+        const page = buffer[0] === PageBlockType.Empty
+          ? new EmptyPageBlock(this.format, addr)
+          : this.instantiatePageBlock(addr, buffer.slice(), true);
+        this.blockCache.set(addr, page);
+      }
+    }
+    state.snapshots.clear();
+    this.memoryPageCount = state.memoryPageCount;
+    this.closeInvalidPages();
+  }
+
+  // Release the savepoint (and the ones created after it), changes are kept
+  public release(savepoint: Savepoint) {
+    const index = this.getSavepointIndex(savepoint);
+    const released = this.savepoints.splice(index);
+    const parent = this.savepoints[index - 1];
+    if (parent === undefined) {
+      return;
+    }
+    // the parent savepoint keeps the oldest snapshot of each block
+    for (const { snapshots } of released) {
+      for (const [addr, buffer] of snapshots) {
+        if (parent.snapshots.has(addr) === false) {
+          parent.snapshots.set(addr, buffer);
+        }
+      }
+    }
+  }
+
+  public close() {
+    this.clearSpill(false);
+    this.storage.close();
     this.isClosed = true;
   }
 
   // PRIVATE
 
+  private prepareSave(): SaveState {
+    if (this.isClosed) {
+      throw new Error(`Cannot write closed file`);
+    }
+    this.checkWritable(`save`);
+    this.saveStart = performance.now();
+    const storage = this.storage;
+    if (this.savepoints.length > 0) {
+      throw new Error(`Cannot save with active savepoints`);
+    }
+    const dataPages: Array<SavePage> = [];
+    const metaPages: Array<SavePage> = [];
+    const addPage = (type: number, page: SavePage) => {
+      const isMeta = type === PageBlockType.Root ||
+        type === PageBlockType.Emptylist;
+      (isMeta ? metaPages : dataPages).push(page);
+    };
+    const dirtyAddrs = new Set<number>();
+    this.blockCache.traverse((block) => {
+      if (block.dirty === false) {
+        return;
+      }
+      dirtyAddrs.add(block.addr);
+      addPage(block.type, {
+        addr: block.addr,
+        read: () => block.readRaw(),
+        onSaved: () => {
+          this.countWrite(this.pageSize);
+          this.onPageBlockSaved(block);
+        },
+      });
+    });
+    let hasDirectPages = false;
+    for (const [addr, spilled] of this.spilledPages) {
+      if (spilled.slot === DIRECT_SLOT) {
+        hasDirectPages = true;
+      }
+      // pages loaded back in the cache are more recent
+      if (spilled.slot === DIRECT_SLOT || dirtyAddrs.has(addr)) {
+        continue;
+      }
+      addPage(spilled.type, {
+        addr,
+        read: () => this.readSpilledPage(addr, spilled),
+        onSaved: () => this.countWrite(this.pageSize),
+      });
+    }
+    return {
+      storage,
+      journal: this.journal,
+      dataPages,
+      metaPages,
+      hasDirectPages,
+      syncMode: this.durability === "none" ? null : this.durability,
+    };
+  }
+
+  // called once all pages from prepareSave are written
+  private finishSave() {
+    this.clearSpill(true);
+    if (this.saveStart !== null) {
+      this.counters.saveCount++;
+      this.counters.saveTime += performance.now() - this.saveStart;
+      this.saveStart = null;
+    }
+    this.checkCache();
+  }
+
+  private forEachCurrentPage(
+    onPage: (addr: number, buffer: Uint8Array) => void,
+  ) {
+    if (this.isClosed) {
+      throw new Error(`Cannot read closed file`);
+    }
+    // make sure root exists
+    this.getRootPageBlock();
+    for (let addr = 0; addr < this.memoryPageCount; addr++) {
+      const page = this.readCurrentPage(addr);
+      if (page) {
+        onPage(addr, page.buffer);
+      }
+    }
+    this.checkCache();
+  }
+
+  private checkCanShrink(action: string) {
+    if (this.isClosed) {
+      throw new Error(`Cannot ${action} closed file`);
+    }
+    this.checkWritable(action);
+    if (this.savepoints.length > 0) {
+      throw new Error(`Cannot ${action} with active savepoints`);
+    }
+  }
+
+  // copy a page block to a free address
+  private movePageBlock(addr: number, newAddr: number) {
+    const type = this.getCurrentPageBlockType(addr);
+    const block = this.getPageBlock(addr, type, true);
+    const movedBlock = this.instantiatePageBlock(
+      newAddr,
+      block.readRaw(),
+      true,
+    );
+    const previous = this.blockCache.get(newAddr);
+    if (previous) {
+      previous.close();
+    }
+    this.blockCache.set(newAddr, movedBlock);
+    block.close();
+    this.blockCache.delete(addr);
+  }
+
+  private remapPageBlockRefs(
+    addr: number,
+    type: number,
+    moved: Map<number, number>,
+  ) {
+    const block = this.getPageBlock(addr, type, true);
+    if (
+      block instanceof RootPageBlock || block instanceof EntryPageBlock ||
+      block instanceof DataPageBlock
+    ) {
+      const nextPage = moved.get(block.nextPage);
+      if (nextPage !== undefined) {
+        block.nextPage = nextPage;
+      }
+    }
+    if (block instanceof RootPageBlock || block instanceof EntryPageBlock) {
+      const lastPage = moved.get(block.lastPage ?? 0);
+      if (lastPage !== undefined) {
+        block.setLastPage(lastPage);
+      }
+    }
+    if (block instanceof DataPageBlock) {
+      const prevPage = moved.get(block.prevPage);
+      if (prevPage !== undefined) {
+        block.prevPage = prevPage;
+      }
+    }
+  }
+
+  // empty pages in the emptylist and emptylist pages (cache is not updated)
+  private getFreelistLength(): number {
+    const root = this.readCurrentPage(0);
+    if (root === null) {
+      return 0;
+    }
+    let length = 0;
+    let addr = new RootPageBlock(this.format, root.buffer, false)
+      .emptylistAddr;
+    while (addr !== 0) {
+      const page = this.readCurrentPage(addr);
+      if (page === null) {
+        throw new Error(`Emptylist page ${addr} does not exist`);
+      }
+      const emptylist = new EmptylistPageBlock(
+        this.format,
+        addr,
+        page.buffer,
+        false,
+      );
+      length += emptylist.count + 1;
+      addr = emptylist.nextPage;
+    }
+    return length;
+  }
+
+  // addresses in the emptylist and emptylist pages themselves
+  private getFreeAddrs(): Set<number> {
+    const freeAddrs = new Set<number>();
+    let addr = this.getRootPageBlock().emptylistAddr;
+    while (addr !== 0) {
+      const emptylist = this.getEmptylistPageBlock(addr, true);
+      freeAddrs.add(addr);
+      for (let i = 0; i < emptylist.count; i++) {
+        freeAddrs.add(emptylist.readAtIndex(i));
+      }
+      addr = emptylist.nextPage;
+    }
+    return freeAddrs;
+  }
+
+  private rebuildEmptylist(freeAddrs: Array<number>) {
+    const root = this.getRootPageBlock();
+    let addr = root.emptylistAddr;
+    while (addr !== 0) {
+      const emptylist = this.getEmptylistPageBlock(addr, true);
+      addr = emptylist.nextPage;
+      this.emptyPageBlock(emptylist);
+    }
+    root.emptylistAddr = 0;
+    // lower addresses are poped first
+    freeAddrs.sort((a, b) => b - a).forEach((addr) => {
+      this.addAddrToEmptylist(addr);
+    });
+  }
+
+  // remove pages after pageCount from memory
+  private shrink(pageCount: number) {
+    for (const addr of this.spilledPages.keys()) {
+      if (addr >= pageCount) {
+        this.spilledPages.delete(addr);
+      }
+    }
+    const removed: Array<PageBlock> = [];
+    this.blockCache.traverse((page) => {
+      if (page.addr >= pageCount) {
+        removed.push(page);
+      }
+    });
+    removed.forEach((page) => {
+      page.close();
+      this.blockCache.delete(page.addr);
+    });
+    this.memoryPageCount = pageCount;
+    // pages after pageCount are not read from the file anymore
+    this.filePageCount = Math.min(this.filePageCount, pageCount);
+  }
+
+  private saveAndTruncate() {
+    this.save();
+    this.storage.truncate(this.memoryPageCount, this.pageSize);
+    this.filePageCount = this.memoryPageCount;
+  }
+
+  private checkWritable(action: string) {
+    if (this.readOnly) {
+      throw new ReadOnlyError(action);
+    }
+  }
+
+  // type of a page, null if the page does not exist or is corrupted
+  private readValidPageBlockType(addr: number): number | null {
+    const page = this.readCurrentPage(addr);
+    if (page === null) {
+      return null;
+    }
+    if (page.fromStorage) {
+      try {
+        verifyPageChecksum(this.format, addr, page.buffer);
+      } catch (error) {
+        if (error instanceof PageCorruptionError) {
+          return null;
+        }
+        throw error;
+      }
+    }
+    return page.buffer[0];
+  }
+
+  // number of pages including unsaved pages
+  private getPageCount(): number {
+    return this.memoryPageCount;
+  }
+
+  /**
+   * Page buffer including unsaved changes (without updating the cache)
+   * Return null if the page does not exist yet
+   */
+  private readCurrentPage(
+    addr: number,
+  ): { buffer: Uint8Array; fromStorage: boolean } | null {
+    const cached = this.blockCache.peek(addr);
+    if (cached) {
+      return { buffer: cached.readRaw(), fromStorage: false };
+    }
+    const spilled = this.spilledPages.get(addr);
+    if (spilled) {
+      return {
+        buffer: this.readSpilledPage(addr, spilled),
+        fromStorage: false,
+      };
+    }
+    if (addr < this.filePageCount) {
+      return { buffer: this.readPageBuffer(addr), fromStorage: true };
+    }
+    return null;
+  }
+
+  private getStorage(): IPageStorage {
+    return this.storage;
+  }
+
+  private onPageBlockSaved(page: PageBlock) {
+    if (page.addr >= this.filePageCount) {
+      this.filePageCount = page.addr + 1;
+    }
+    page.markSaved();
+  }
+
+  private getCachedPageBlock(addr: number): PageBlock | null {
+    const cached = this.blockCache.get(addr);
+    if (cached) {
+      return cached;
+    }
+    const spilled = this.spilledPages.get(addr);
+    if (spilled && spilled.type !== PageBlockType.Empty) {
+      // the file does not contain the current version
+      return this.getPageBlock(addr, spilled.type, false);
+    }
+    return null;
+  }
+
+  private prefetchPageBuffer(addr: number, buffer: Uint8Array) {
+    this.countRead(buffer.byteLength);
+    this.prefetched.set(addr, buffer);
+  }
+
+  private clearPrefetched() {
+    this.prefetched.clear();
+  }
+
+  // page size of an existing file, null if the file is empty
+  private detectPageSize(): number | null {
+    // a pending journal also knows the page size (root might be partially written)
+    if (typeof this.path === "string") {
+      const journalPageSize = new Journal(this.path, 0).readPageSize();
+      if (journalPageSize !== null) {
+        return journalPageSize;
+      }
+    }
+    const minPageSize = VALID_PAGE_SIZE[0];
+    const minPageCount = this.storage.pageCount(minPageSize);
+    if (minPageCount === 0) {
+      return null;
+    }
+    if (minPageCount < 1) {
+      throw new FileFormatError(
+        `Invalid file size: ${
+          minPageCount * minPageSize
+        } is smaller than the minimum page size`,
+      );
+    }
+    const rootHeader = this.readStorage(0, minPageSize);
+    if (rootHeader[0] !== PageBlockType.Root) {
+      throw new FileFormatError(
+        `Invalid root page type ${rootHeader[0]}: not a paged file`,
+      );
+    }
+    const { pageSize } = readFormatHeader(rootHeader);
+    if (VALID_PAGE_SIZE.includes(pageSize) === false) {
+      throw new FileFormatError(`Invalid page size ${pageSize} in header`);
+    }
+    return pageSize;
+  }
+
+  private readFilePageCount(): number {
+    const pageCount = this.storage.pageCount(this.pageSize);
+    if (pageCount !== Math.floor(pageCount)) {
+      throw new FileFormatError(
+        `Invalid file size: ${
+          pageCount * this.pageSize
+        } is not a multiple of the page size ${this.pageSize}`,
+      );
+    }
+    return pageCount;
+  }
+
+  private upgradeFormat(upgrades: FormatUpgrades) {
+    let version = this.readRootFormatVersion();
+    while (version < CURRENT_FORMAT_VERSION && upgrades[version]) {
+      upgrades[version]({
+        version,
+        pageSize: this.pageSize,
+        pageCount: this.readFilePageCount(),
+        readPage: (addr) => this.readPageBuffer(addr),
+        writePage: (addr, buffer) => this.writePageBuffer(addr, buffer),
+      });
+      const newVersion = this.readRootFormatVersion();
+      if (newVersion <= version) {
+        throw new FileFormatError(
+          `Upgrade from version ${version} did not update the format version`,
+        );
+      }
+      version = newVersion;
+    }
+  }
+
+  private readRootFormatVersion(): number {
+    const rootBuffer = this.readPageBuffer(0);
+    if (rootBuffer[0] !== PageBlockType.Root) {
+      throw new FileFormatError(
+        `Invalid root page type ${rootBuffer[0]}: not a paged file`,
+      );
+    }
+    return readFormatHeader(rootBuffer).version;
+  }
+
+  private transactionForManager<M, T>(manager: M, fn: (manager: M) => T): T {
+    // an async function would keep running after the savepoint is released
+    if (fn.constructor.name === "AsyncFunction") {
+      throw new Error(`Transaction function must be synchronous`);
+    }
+    const savepoint = this.savepoint();
+    let result: T;
+    try {
+      result = fn(manager);
+      if (result instanceof Promise) {
+        throw new Error(`Transaction function must be synchronous`);
+      }
+    } catch (error) {
+      this.rollbackTo(savepoint);
+      this.release(savepoint);
+      throw error;
+    }
+    this.release(savepoint);
+    return result;
+  }
+
+  private getSavepointIndex(savepoint: Savepoint): number {
+    const index = this.savepoints.findIndex((s) => s.id === savepoint.id);
+    if (index === -1) {
+      throw new Error(`Invalid savepoint: already released or rolled back`);
+    }
+    return index;
+  }
+
+  private discardDirtyBlocks() {
+    const discarded: Array<PageBlock> = [];
+    this.blockCache.traverse((page) => {
+      if (page.dirty) {
+        discarded.push(page);
+      }
+    });
+    for (const page of discarded) {
+      page.close();
+      this.blockCache.delete(page.addr);
+    }
+  }
+
+  // close open pages that don't match a Root / Entry page anymore
+  // chains may have changed: the chain index of other pages is reset
+  private closeInvalidPages() {
+    for (const [addr, { page }] of this.pageCache) {
+      const expectedType = addr === 0
+        ? PageBlockType.Root
+        : entryPageTypeToPageBlockType(page.type);
+      if (this.getCurrentPageBlockType(addr) !== expectedType) {
+        this.pageCache.delete(addr);
+        page[PAGE_INTERNAL_CLOSE]();
+        continue;
+      }
+      page[PAGE_INTERNAL_RESET]();
+    }
+  }
+
   private getRootPageForManager(manager: PageManager): Page {
     if (this.isClosed) {
       throw new Error(`Cannot read closed file`);
@@ -228,6 +1407,7 @@ export class PagedFile implements IPageManager {
     if (this.isClosed) {
       throw new Error(`Cannot write closed file`);
     }
+    this.checkWritable(`create page`);
     const mainPage = this.getEntryPageBlock(
       this.getEmptyPageAddr(),
       pageType === null ? null : entryPageTypeToPageBlockType(pageType),
@@ -333,19 +1513,156 @@ export class PagedFile implements IPageManager {
       return;
     }
     let deleteCount = this.blockCache.size - this.cacheSize;
-    this.blockCache.traverseFromOldest((page) => {
-      if (page.dirty === false) {
-        deleteCount--;
-        page.close();
-        this.blockCache.delete(page.addr);
-        if (deleteCount <= 0) {
-          // stop the loop
-          return false;
-        }
+    const dirtyPages: Array<PageBlock> = [];
+    for (const page of this.getEvictionCandidates()) {
+      if (deleteCount <= 0) {
+        return;
+      }
+      if (page.dirty) {
+        dirtyPages.push(page);
+        continue;
       }
+      deleteCount--;
+      this.counters.evictions++;
+      page.close();
+      this.blockCache.delete(page.addr);
+    }
+    // savepoints keep a copy of dirty pages, spilling would bypass it
+    if (
+      deleteCount <= 0 || this.spill === false || this.savepoints.length > 0
+    ) {
+      return;
+    }
+    dirtyPages.slice(0, deleteCount).forEach((page) => {
+      this.counters.evictions++;
+      this.spillPageBlock(page);
     });
   }
 
+  // cached blocks that are not pinned, lower priority first
+  private *getEvictionCandidates(): Iterable<PageBlock> {
+    if (this.cachePriorities === null) {
+      for (const page of this.blockCache.evictionOrder()) {
+        if (this.pinCounts.has(page.addr) === false) {
+          yield page;
+        }
+      }
+      return;
+    }
+    const candidates: Array<{ page: PageBlock; priority: number }> = [];
+    for (const page of this.blockCache.evictionOrder()) {
+      if (this.pinCounts.has(page.addr) === false) {
+        candidates.push({ page, priority: this.getCachePriority(page) });
+      }
+    }
+    // sort is stable: eviction order is kept for the same priority
+    candidates.sort((a, b) => a.priority - b.priority);
+    for (const { page } of candidates) {
+      yield page;
+    }
+  }
+
+  private getCachePriority(page: PageBlock): number {
+    const priorities = this.cachePriorities ?? {};
+    if (page.type === PageBlockType.Root) {
+      return priorities.root ?? 0;
+    }
+    if (page.type === PageBlockType.Emptylist) {
+      return priorities.emptylist ?? 0;
+    }
+    if (page.type === PageBlockType.Data) {
+      return priorities.data ?? 0;
+    }
+    if (page.type >= PageBlockType.Entry) {
+      const pageType = pageBlockTypeToEntryPageType(page.type);
+      return priorities.entryTypes?.[pageType] ?? priorities.entry ?? 0;
+    }
+    return 0;
+  }
+
+  // write a dirty page out of the cache, it is still dirty until save
+  private spillPageBlock(page: PageBlock) {
+    const buffer = page.readRaw();
+    this.countWrite(buffer.byteLength);
+    if (this.journal !== null && page.addr >= this.filePageCount) {
+      // the saved file does not reference this page yet, without a journal
+      // a crash would leave it after the end of the file
+      this.storage.writePage(page.addr, buffer);
+      this.spilledPages.set(page.addr, {
+        type: page.type,
+        slot: DIRECT_SLOT,
+      });
+    } else {
+      const slot = this.spilledPages.get(page.addr)?.slot ??
+        this.spillSlotCount++;
+      this.getSpillStorage().writePage(slot, buffer);
+      this.spilledPages.set(page.addr, { type: page.type, slot });
+    }
+    page.close();
+    this.blockCache.delete(page.addr);
+  }
+
+  private readStorage(addr: number, pageSize: number): Uint8Array {
+    this.countRead(pageSize);
+    return this.storage.readPage(addr, pageSize);
+  }
+
+  private countRead(byteLength: number) {
+    this.counters.pagesRead++;
+    this.counters.bytesRead += byteLength;
+  }
+
+  private countWrite(byteLength: number) {
+    this.counters.pagesWritten++;
+    this.counters.bytesWritten += byteLength;
+  }
+
+  private readSpilledPage(addr: number, spilled: SpilledPage): Uint8Array {
+    if (spilled.slot === DIRECT_SLOT) {
+      return this.readStorage(addr, this.pageSize);
+    }
+    this.countRead(this.pageSize);
+    return this.getSpillStorage().readPage(spilled.slot, this.pageSize);
+  }
+
+  private getSpillStorage(): FilePageStorage {
+    if (this.spillStorage === null) {
+      const path = typeof this.path === "string"
+        ? this.path + "-spill"
+        : Deno.makeTempFileSync({ prefix: "paged-file-spill-" });
+      this.spillStorage = new FilePageStorage(path);
+      // spill file left by a crash
+      this.spillStorage.truncate(0, this.pageSize);
+    }
+    return this.spillStorage;
+  }
+
+  /**
+   * Forget spilled pages
+   * saved: spilled pages are part of the file now, otherwise pages written
+   * at the end of the file are removed.
+   */
+  private clearSpill(saved: boolean) {
+    let directPageCount = 0;
+    for (const [addr, { slot }] of this.spilledPages) {
+      if (slot === DIRECT_SLOT) {
+        directPageCount = Math.max(directPageCount, addr + 1);
+      }
+    }
+    if (saved) {
+      this.filePageCount = Math.max(this.filePageCount, directPageCount);
+    } else if (directPageCount > this.filePageCount) {
+      this.storage.truncate(this.filePageCount, this.pageSize);
+    }
+    this.spilledPages.clear();
+    this.spillSlotCount = 0;
+    if (this.spillStorage) {
+      this.spillStorage.close();
+      Deno.removeSync(this.spillStorage.path);
+      this.spillStorage = null;
+    }
+  }
+
   private checkPageCache() {
     for (const [addr, { managers, page }] of this.pageCache) {
       if (managers.size === 0) {
@@ -375,6 +1692,11 @@ export class PagedFile implements IPageManager {
     if (emptylistPage === null) {
       // No emptylist add page at the end
       const pageAddr = this.memoryPageCount;
+      if (pageAddr > this.format.maxAddr) {
+        throw new Error(
+          `File is full: cannot address more than ${this.format.maxAddr} pages`,
+        );
+      }
       this.memoryPageCount += 1;
       return pageAddr;
     }
@@ -392,7 +1714,7 @@ export class PagedFile implements IPageManager {
         emptylistPage.prevPage,
         true,
       );
-      prevPage.prevPage = 0;
+      prevPage.nextPage = 0;
       return emptylistPage.addr;
     }
     return emptylistPage.pop();
@@ -409,10 +1731,11 @@ export class PagedFile implements IPageManager {
   }
 
   private emptyPageBlock(page: PageBlock) {
+    this.snapshotPageBlock(page.addr, page);
     page.close();
     this.blockCache.set(
       page.addr,
-      new EmptyPageBlock(this.pageSize, page.addr),
+      new EmptyPageBlock(this.format, page.addr),
     );
   }
 
@@ -427,7 +1750,8 @@ export class PagedFile implements IPageManager {
     }
     if (emptylist.full) {
       // create next emptylist with the empty address
-      this.getEmptylistPageBlock(addr, false);
+      const nextEmptylist = this.getEmptylistPageBlock(addr, false);
+      nextEmptylist.prevPage = emptylist.addr;
       emptylist.nextPage = addr;
       return;
     }
@@ -518,17 +1842,20 @@ export class PagedFile implements IPageManager {
   ): PageBlock {
     const cached = this.blockCache.get(pageAddr);
     if (cached) {
+      this.counters.cacheHits++;
       if (cached.type === PageBlockType.Empty) {
         const buffer = new Uint8Array(this.pageSize);
         const typeResolved = expectedType ?? PageBlockType.Entry;
         buffer[0] = typeResolved;
         const page = this.instantiatePageBlock(pageAddr, buffer, true);
+        this.snapshotPageBlock(pageAddr, cached);
         this.blockCache.set(pageAddr, page);
         return page;
       }
       this.ensureTypeMatch(pageAddr, expectedType, cached.type);
       return cached;
     }
+    this.counters.cacheMisses++;
     const [buffer, isNew] = this.getPageBuffer(
       pageAddr,
       expectedType,
@@ -539,29 +1866,54 @@ export class PagedFile implements IPageManager {
       buffer,
       isNew,
     );
+    if (isNew) {
+      // a new page is removed from the cache on rollback
+      this.snapshotPageBlock(pageAddr, null);
+    }
     this.blockCache.set(pageAddr, page);
     return page;
   }
 
+  // keep the block as it was when the last savepoint was created,
+  // called before its first change (or before it is replaced in the cache)
+  private snapshotPageBlock(addr: number, page: PageBlock | null) {
+    const state = this.savepoints[this.savepoints.length - 1];
+    if (state === undefined || state.snapshots.has(addr)) {
+      return;
+    }
+    // clean blocks are read again from the file on rollback
+    state.snapshots.set(addr, page && page.dirty ? page.readRaw() : null);
+  }
+
   private instantiatePageBlock(
     pageAddr: number,
     buffer: Uint8Array,
     isNew: boolean,
+  ): PageBlock {
+    const page = this.createPageBlock(pageAddr, buffer, isNew);
+    page.onBeforeWrite = this.onBeforePageBlockWrite;
+    return page;
+  }
+
+  private createPageBlock(
+    pageAddr: number,
+    buffer: Uint8Array,
+    isNew: boolean,
   ): PageBlock {
     const type: PageBlockType = buffer[0];
     if (type === PageBlockType.Empty) {
       throw new Error(`Cannot instantiate empty pagbe`);
     }
     if (type === PageBlockType.Root) {
-      return new RootPageBlock(this.pageSize, buffer, isNew);
+      return new RootPageBlock(this.format, buffer, isNew);
     }
     if (type === PageBlockType.Emptylist) {
-      return new EmptylistPageBlock(this.pageSize, pageAddr, buffer, isNew);
+      return new EmptylistPageBlock(this.format, pageAddr, buffer, isNew);
     }
     if (type === PageBlockType.Data) {
-      return new DataPageBlock(this.pageSize, pageAddr, buffer, isNew);
+      return new DataPageBlock(this.format, pageAddr, buffer, isNew);
     }
-    return new EntryPageBlock(this.pageSize, pageAddr, buffer, type, isNew);
+    return new EntryPageBlock(this.format, pageAddr, buffer, type, isNew);
   }
 
   /**
@@ -577,11 +1929,23 @@ export class PagedFile implements IPageManager {
     if (pageAddr >= this.memoryPageCount) {
       throw new Error(`What ?`);
     }
+    const spilled = this.spilledPages.get(pageAddr);
+    if (spilled) {
+      const buffer = this.readSpilledPage(pageAddr, spilled);
+      if (buffer[0] === PageBlockType.Empty) {
+        buffer[0] = expectedType ?? PageBlockType.Entry;
+      } else {
+        this.ensureTypeMatch(pageAddr, expectedType, buffer[0]);
+      }
+      // spilled pages are not saved yet
+      return [buffer, true];
+    }
     if (!isOnFile && mustExist) {
       throw new Error(`Range exceeded.`);
     }
     if (isOnFile) {
       const buffer = this.readPageBuffer(pageAddr);
+      verifyPageChecksum(this.format, pageAddr, buffer);
       if (buffer[0] === PageBlockType.Empty) {
         // if page is empty => change type (empty page buffer is empty so we can reuse it)
         buffer[0] = expectedType ?? PageBlockType.Entry;
@@ -596,24 +1960,39 @@ export class PagedFile implements IPageManager {
     return [buffer, true];
   }
 
+  // type of a page (including unsaved changes), null if the page does not exist
+  private getCurrentPageBlockType(pageAddr: number): number | null {
+    const cached = this.blockCache.get(pageAddr);
+    if (cached) {
+      return cached.type;
+    }
+    const spilled = this.spilledPages.get(pageAddr);
+    if (spilled) {
+      return spilled.type;
+    }
+    if (pageAddr >= this.filePageCount) {
+      return null;
+    }
+    return this.readPageBuffer(pageAddr)[0];
+  }
+
   private readPageBuffer(pageAddr: number): Uint8Array {
     if (pageAddr < 0) {
       throw new Error(`Invalid page address`);
     }
-    if (this.file === null) {
-      throw new Error(`Cannot read file in MEMOMY mode`);
+    const prefetched = this.prefetched.get(pageAddr);
+    if (prefetched) {
+      this.prefetched.delete(pageAddr);
+      return prefetched;
     }
-    const offset = this.pageSize * pageAddr;
-    const buffer = new Uint8Array(this.pageSize);
-    this.file.seekSync(offset, Deno.SeekMode.Start);
-    for (let i = 0; i < this.pageSize;) {
-      const nread = this.file.readSync(buffer.subarray(i));
-      if (nread === null) {
-        throw new Error("Unexpected EOF");
-      }
-      i += nread;
+    return this.readStorage(pageAddr, this.pageSize);
+  }
+
+  private writePageBuffer(pageAddr: number, buffer: Uint8Array) {
+    if (buffer.byteLength !== this.pageSize) {
+      throw new Error(`Invalid page buffer size`);
     }
-    return buffer;
+    this.storage.writePage(pageAddr, buffer);
   }
 
   debug(
@@ -625,17 +2004,28 @@ export class PagedFile implements IPageManager {
     }
     for (let addr = 0; addr < this.filePageCount; addr++) {
       const cached = this.blockCache.get(addr);
+      const spilled = this.spilledPages.get(addr);
       if (cached && includeMemory) {
         result.push(PageBlockToString(cached));
+      } else if (spilled && includeMemory) {
+        const pageBuffer = this.readSpilledPage(addr, spilled);
+        result.push(pageBufferToString(addr, pageBuffer, this.format));
       } else {
         const pageBuffer = this.readPageBuffer(addr);
-        result.push(pageBufferToString(addr, pageBuffer, this.pageSize));
+        result.push(pageBufferToString(addr, pageBuffer, this.format));
       }
     }
     return result;
   }
 }
 
+// pages are read when the journal is written
+export function* toJournalPages(pages: Array<SavePage>): Iterable<JournalPage> {
+  for (const page of pages) {
+    yield { addr: page.addr, buffer: page.read() };
+  }
+}
+
 function PageBlockToString(page: PageBlock): string {
   if (page.type === PageBlockType.Empty) {
     return `${("000" + page.addr).slice(-3)}: Empty`;
@@ -672,25 +2062,11 @@ function PageBlockToString(page: PageBlock): string {
 function pageBufferToString(
   addr: number,
   buffer: Uint8Array,
-  pageSize: number,
+  format: PageFormat,
 ): string {
-  const type = buffer[0];
-  // const basePage = new RawPageBlock(pageSize, addr, buffer, type, false);
-  if (type === PageBlockType.Empty) {
+  const page = pageBlockFromBuffer(format, addr, buffer);
+  if (page === null) {
     return (`${("000" + addr).slice(-3)}: Empty`);
   }
-  if (type === PageBlockType.Root) {
-    const page = new RootPageBlock(pageSize, buffer, false);
-    return PageBlockToString(page);
-  }
-  if (type === PageBlockType.Emptylist) {
-    const page = new EmptylistPageBlock(pageSize, addr, buffer, false);
-    return PageBlockToString(page);
-  }
-  if (type === PageBlockType.Data) {
-    const page = new DataPageBlock(pageSize, addr, buffer, false);
-    return PageBlockToString(page);
-  }
-  const page = new EntryPageBlock(pageSize, addr, buffer, type, false);
   return PageBlockToString(page);
 }
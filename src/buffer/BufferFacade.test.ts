@@ -123,3 +123,31 @@ Deno.test("PagedBufferFacade cleanup", () => {
   buf.cleanupAfter(20);
   assertEquals(deletedPage, [3]);
 });
+
+Deno.test("PagedBufferFacade index pages", () => {
+  const bufs = [0, 1, 2, 3].map(() =>
+    new SimpleBufferFacade(new Uint8Array(5))
+  );
+  let calls = 0;
+  const buf = new PagedBufferFacade<number>(0, (index) => {
+    calls++;
+    const b = bufs[index];
+    if (!b) {
+      return null;
+    }
+    return { buffer: b, nextPageInfo: index + 1 };
+  }, () => {});
+
+  buf.writeByte(17, 42);
+  assertEquals(calls, 4);
+  assertEquals(buf.readByte(17), 42);
+  assertEquals(buf.byteLength, 20);
+  assertEquals(buf.read(16, 2), new Uint8Array([0, 42]));
+  // the end of the chain is known
+  assertEquals(calls, 5);
+  buf.cleanupAfter(7);
+  assertEquals(buf.byteLength, 10);
+  buf.reset();
+  assertEquals(buf.readByte(17), 42);
+  assertEquals(calls, 9);
+});
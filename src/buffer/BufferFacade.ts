@@ -241,6 +241,48 @@ export class TrackedBufferFacade extends GuardedBufferFacade {
   }
 }
 
+/**
+ * Forward to the facade returned by getFacade on each access
+ * (the target can be replaced, for example when a page is reloaded)
+ */
+export class LazyBufferFacade implements IBufferFacade {
+  private readonly getFacade: () => IBufferFacade;
+
+  constructor(getFacade: () => IBufferFacade) {
+    this.getFacade = getFacade;
+  }
+
+  public get byteLength() {
+    return this.getFacade().byteLength;
+  }
+
+  public [UNSAFE_ACCESS] = (start = 0, length?: number): Uint8Array => {
+    return this.getFacade()[UNSAFE_ACCESS](start, length);
+  };
+
+  public read(start = 0, length?: number): Uint8Array {
+    return this.getFacade().read(start, length);
+  }
+
+  public readByte(index: number): number {
+    return this.getFacade().readByte(index);
+  }
+
+  public writeByte(index: number, val: number) {
+    this.getFacade().writeByte(index, val);
+    return this;
+  }
+
+  public write(content: Uint8Array | IBufferFacade, offset = 0) {
+    this.getFacade().write(content, offset);
+    return this;
+  }
+
+  public select(start = 0, length?: number): IBufferFacade {
+    return new SelectBufferFacade(this, start, length);
+  }
+}
+
 export class DynamicBufferFacade implements IBufferFacade {
   private facade: SimpleBufferFacade;
 
@@ -299,12 +341,24 @@ export class DynamicBufferFacade implements IBufferFacade {
   }
 }
 
+type IndexedPage<PageInfo> = IPagedBufferFacadePage<PageInfo> & {
+  // position of the page in the content
+  offset: number;
+};
+
+/**
+ * Buffer made of a chain of pages
+ * Pages are indexed (with their offset) the first time they are visited
+ * so random access does not walk the chain again.
+ * Call reset if the chain is changed without using this facade.
+ */
 export class PagedBufferFacade<PageInfo> implements IBufferFacade {
   private readonly getNextPage: IGetNextPage<PageInfo>;
   private readonly deleteNextPage: IDeleteNextPage<PageInfo>;
   private readonly initialPageInfo: PageInfo;
-  // private readonly pages: Array<IPagedBufferFacadePage<PageInfo>> = [];
-  // private complete: null | { byteLength?: number } = null;
+  private readonly pages: Array<IndexedPage<PageInfo>> = [];
+  // the last page of the chain is in pages
+  private complete = false;
 
   constructor(
     initialPageInfo: PageInfo,
@@ -317,66 +371,65 @@ export class PagedBufferFacade<PageInfo> implements IBufferFacade {
   }
 
   public get byteLength(): number {
-    // if (this.complete && this.complete.byteLength !== undefined) {
-    //   return this.complete.byteLength;
-    // }
-    let size = 0;
-    let pageInfo = this.initialPageInfo;
-    while (true) {
-      const page = this.getNextPage(pageInfo, "read");
-      if (page === null) {
-        break;
-      }
-      size += page.buffer.byteLength;
-      pageInfo = page.nextPageInfo;
+    while (this.getPage(this.pages.length, "read") !== null) {
+      // index the whole chain
     }
-    // for (let pageIndex = 0; true; pageIndex++) {
-    //   const page = this.getPage(pageIndex, "read");
-    //   if (page === null) {
-    //     break;
-    //   }
-    //   size += page.buffer.byteLength;
-    // }
-    // this.complete = { byteLength: size };
-    return size;
+    const last = this.pages[this.pages.length - 1];
+    return last ? last.offset + last.buffer.byteLength : 0;
+  }
+
+  // forget indexed pages
+  public reset() {
+    this.pages.length = 0;
+    this.complete = false;
+  }
+
+  // pages were added at the end of the chain without using this facade
+  // (indexed pages are still valid)
+  public onChainExtended() {
+    this.complete = false;
+  }
+
+  // info, start offset and length of the page containing offset
+  // (null if out of range)
+  public locate(
+    offset: number,
+  ): { pageInfo: PageInfo; start: number; length: number } | null {
+    const pageIndex = this.findPage(offset, "read");
+    if (pageIndex === null) {
+      return null;
+    }
+    const page = this.pages[pageIndex];
+    return {
+      pageInfo: page.nextPageInfo,
+      start: page.offset,
+      length: page.buffer.byteLength,
+    };
   }
 
   public [UNSAFE_ACCESS] = (start = 0, length?: number): Uint8Array => {
     const resultLength = length ?? this.byteLength - start;
     const result = new Uint8Array(resultLength);
-    let skipRest = start;
-    let readRest = length ?? Infinity;
+    if (resultLength === 0) {
+      return result;
+    }
+    const first = this.findPage(start, "read");
+    if (first === null) {
+      throw new Error(`Out of range read`);
+    }
     let written = 0;
-    let pageInfo = this.initialPageInfo;
-    while (true) {
-      const page = this.getNextPage(pageInfo, "read");
+    for (let index = first; written < resultLength; index++) {
+      const page = this.getPage(index, "read");
       if (page === null) {
-        if (length === undefined) {
-          break;
-        }
         throw new Error(`Out of range read`);
       }
-      pageInfo = page.nextPageInfo;
-      const pageLength = page.buffer.byteLength;
-      if (skipRest >= pageLength) {
-        skipRest -= pageLength;
-        continue;
-      }
-      const maxReadLength = pageLength - skipRest;
-      // readpage
-      const readSize = length === undefined
-        ? maxReadLength
-        : Math.min(maxReadLength, readRest);
-      result.set(
-        page.buffer[UNSAFE_ACCESS](skipRest, readSize),
-        written,
+      const skip = index === first ? start - page.offset : 0;
+      const readSize = Math.min(
+        page.buffer.byteLength - skip,
+        resultLength - written,
       );
-      skipRest = 0;
+      result.set(page.buffer[UNSAFE_ACCESS](skip, readSize), written);
       written += readSize;
-      readRest -= readSize;
-      if (readRest === 0) {
-        break;
-      }
     }
     return result;
   };
@@ -386,21 +439,12 @@ export class PagedBufferFacade<PageInfo> implements IBufferFacade {
   }
 
   public readByte(index: number): number {
-    let skipRest = index;
-    let pageInfo = this.initialPageInfo;
-    while (true) {
-      const page = this.getNextPage(pageInfo, "read");
-      if (page === null) {
-        throw new Error(`Out of range read`);
-      }
-      pageInfo = page.nextPageInfo;
-      const pageLength = page.buffer.byteLength;
-      if (skipRest >= pageLength) {
-        skipRest -= pageLength;
-        continue;
-      }
-      return page.buffer.readByte(skipRest);
+    const pageIndex = this.findPage(index, "read");
+    if (pageIndex === null) {
+      throw new Error(`Out of range read`);
     }
+    const page = this.pages[pageIndex];
+    return page.buffer.readByte(index - page.offset);
   }
 
   public writeAndCleanup(content: IWriteValue, offset = 0): this {
@@ -409,23 +453,13 @@ export class PagedBufferFacade<PageInfo> implements IBufferFacade {
 
   // delete pages after offset (data at offset is kept)
   public cleanupAfter(offset: number): this {
-    let skipRest = offset;
-    let pageInfo = this.initialPageInfo;
-    while (true) {
-      const page = this.getNextPage(pageInfo, "write");
-      if (page === null) {
-        break;
-      }
-      pageInfo = page.nextPageInfo;
-      const pageLength = page.buffer.byteLength;
-      if (skipRest >= pageLength) {
-        skipRest -= pageLength;
-        continue;
-      }
-      // done
-      break;
+    const pageIndex = this.findPage(offset, "write");
+    if (pageIndex === null) {
+      // no page can be added: delete after the last page
+      this.deleteAfter(this.pages.length - 1);
+      return this;
     }
-    this.deleteNextPage(pageInfo);
+    this.deleteAfter(pageIndex);
     return this;
   }
 
@@ -434,22 +468,13 @@ export class PagedBufferFacade<PageInfo> implements IBufferFacade {
   }
 
   public writeByte(index: number, val: number): this {
-    let skipRest = index;
-    let pageInfo = this.initialPageInfo;
-    while (true) {
-      const page = this.getNextPage(pageInfo, "write");
-      if (page === null) {
-        throw new Error(`Out of range read`);
-      }
-      pageInfo = page.nextPageInfo;
-      const pageLength = page.buffer.byteLength;
-      if (skipRest >= pageLength) {
-        skipRest -= pageLength;
-        continue;
-      }
-      page.buffer.writeByte(skipRest, val);
-      return this;
+    const pageIndex = this.findPage(index, "write");
+    if (pageIndex === null) {
+      throw new Error(`Out of range read`);
     }
+    const page = this.pages[pageIndex];
+    page.buffer.writeByte(index - page.offset, val);
+    return this;
   }
 
   public select(start = 0, length?: number): IBufferFacade {
@@ -461,37 +486,103 @@ export class PagedBufferFacade<PageInfo> implements IBufferFacade {
     offset: number,
     cleanup: boolean,
   ): this {
-    let skipRest = offset;
     let writeRest: Uint8Array = content instanceof Uint8Array
       ? content
       : content[UNSAFE_ACCESS]();
-    let pageInfo = this.initialPageInfo;
+    const first = this.findPage(offset, "write");
+    if (first === null) {
+      throw new Error(`Out of range write`);
+    }
+    let index = first;
     while (true) {
-      const page = this.getNextPage(pageInfo, "write");
+      const page = this.getPage(index, "write");
       if (page === null) {
         throw new Error(`Out of range write`);
       }
-      pageInfo = page.nextPageInfo;
-      const pageLength = page.buffer.byteLength;
-      if (skipRest >= pageLength) {
-        skipRest -= pageLength;
-        continue;
-      }
       // write page
-      const maxWriteLength = pageLength - skipRest;
-      const writeSize = Math.min(maxWriteLength, writeRest.byteLength);
-      page.buffer.write(writeRest.subarray(0, writeSize), skipRest);
+      const skip = index === first ? offset - page.offset : 0;
+      const writeSize = Math.min(
+        page.buffer.byteLength - skip,
+        writeRest.byteLength,
+      );
+      page.buffer.write(writeRest.subarray(0, writeSize), skip);
       writeRest = writeRest.subarray(writeSize);
-      skipRest = 0;
       if (writeRest.byteLength === 0) {
         break;
       }
+      index++;
     }
     if (cleanup) {
-      this.deleteNextPage(pageInfo);
+      this.deleteAfter(index);
     }
     return this;
   }
+
+  // delete pages after the page at index (-1 to delete all pages)
+  private deleteAfter(index: number) {
+    this.deleteNextPage(
+      index < 0 ? this.initialPageInfo : this.pages[index].nextPageInfo,
+    );
+    this.pages.length = index + 1;
+    this.complete = true;
+  }
+
+  // index of the page containing offset, in write mode missing pages are created
+  private findPage(offset: number, mode: "read" | "write"): number | null {
+    const pages = this.pages;
+    const last = pages[pages.length - 1];
+    if (last && offset < last.offset + last.buffer.byteLength) {
+      // binary search in indexed pages
+      let low = 0;
+      let high = pages.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (pages[mid].offset <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    }
+    for (let index = pages.length; true; index++) {
+      const page = this.getPage(index, mode);
+      if (page === null) {
+        return null;
+      }
+      if (offset < page.offset + page.buffer.byteLength) {
+        return index;
+      }
+    }
+  }
+
+  // page at index, null if the chain is shorter (in read mode)
+  private getPage(
+    index: number,
+    mode: "read" | "write",
+  ): IndexedPage<PageInfo> | null {
+    while (this.pages.length <= index) {
+      if (this.complete && mode === "read") {
+        return null;
+      }
+      const last = this.pages[this.pages.length - 1];
+      const page = this.getNextPage(
+        last ? last.nextPageInfo : this.initialPageInfo,
+        mode,
+      );
+      if (page === null) {
+        this.complete = true;
+        return null;
+      }
+      this.complete = false;
+      this.pages.push({
+        buffer: page.buffer,
+        nextPageInfo: page.nextPageInfo,
+        offset: last ? last.offset + last.buffer.byteLength : 0,
+      });
+    }
+    return this.pages[index];
+  }
 }
 
 export class JoinedBufferFacade extends PagedBufferFacade<number> {
@@ -516,5 +607,6 @@ export class JoinedBufferFacade extends PagedBufferFacade<number> {
   public add(buffer: IBufferFacade) {
     this.buffers.push(buffer);
     this.totalSize += buffer.byteLength;
+    this.reset();
   }
 }
@@ -17,6 +17,7 @@ export {
   DynamicBufferFacade,
   GuardedBufferFacade,
   JoinedBufferFacade,
+  LazyBufferFacade,
   PagedBufferFacade,
   SelectBufferFacade,
   SimpleBufferFacade,
@@ -40,5 +41,5 @@ export type {
   IBlockWValueByName,
   IFixedBlockListItem,
 } from "./FixedBlockList.ts";
-export { calcStringSize } from "./utils.ts";
+export { calcStringSize, crc32 } from "./utils.ts";
 export { BinvalBlock, BinvalReadBlock, BinvalWriteBlock } from "./Binval.ts";
@@ -0,0 +1,35 @@
+export class PageCorruptionError extends Error {
+  public readonly addr: number;
+  public readonly pageType: number;
+
+  constructor(addr: number, pageType: number, reason: string) {
+    super(`Corrupted page ${addr} (type ${pageType}): ${reason}`);
+    this.name = "PageCorruptionError";
+    this.addr = addr;
+    this.pageType = pageType;
+  }
+}
+
+export class FileFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileFormatError";
+  }
+}
+
+export class FileLockedError extends Error {
+  public readonly path: string;
+
+  constructor(path: string, mode: string) {
+    super(`Cannot acquire ${mode} lock on ${path}: file is locked`);
+    this.name = "FileLockedError";
+    this.path = path;
+  }
+}
+
+export class ReadOnlyError extends Error {
+  constructor(action: string) {
+    super(`Cannot ${action}: file is opened in read-only mode`);
+    this.name = "ReadOnlyError";
+  }
+}